@@ -0,0 +1,38 @@
+// Error codes returned by the theme endpoints as `{ error, code, details? }`
+// The frontend localizes them through the `fetchErrors.<code>` translation keys; `error` is for logs and fallbacks
+export type FetchErrorCode =
+  | 'METHOD_NOT_ALLOWED'
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'RATE_LIMITED'
+  | 'URL_REQUIRED'
+  | 'INVALID_URL'
+  | 'PROTOCOL_NOT_ALLOWED'
+  | 'ADDRESS_NOT_ALLOWED'
+  | 'TOO_MANY_REDIRECTS'
+  | 'RESPONSE_TOO_LARGE'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'UPSTREAM_ERROR'
+  | 'NOT_FOUND'
+  | 'THEME_NOT_FOUND'
+  | 'NOT_JSON'
+  | 'INVALID_JSON'
+  | 'INCLUDE_FAILED'
+  | 'INVALID_PACKAGE'
+  | 'THEME_REQUIRED'
+  | 'INVALID_THEME'
+  | 'INVALID_OPTIONS'
+  | 'INTERNAL_ERROR';
+
+export class FetchThemeError extends Error {
+  constructor(
+    public readonly code: FetchErrorCode,
+    message: string,
+    public readonly status = 400,
+    // Values the frontend can interpolate into the localized message
+    public readonly details?: Record<string, string | number>,
+  ) {
+    super(message);
+    this.name = 'FetchThemeError';
+  }
+}
@@ -0,0 +1,95 @@
+// Shared request handling for the API routes: CORS, per-IP rate limiting and structured errors
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { FetchThemeError } from './_errors.js';
+
+/**
+ * Responds with `{ error, code, details? }`; unexpected errors become INTERNAL_ERROR
+ * @param res response
+ * @param error thrown value
+ */
+export function sendError(res: VercelResponse, error: unknown) {
+  const fetchError = error instanceof FetchThemeError
+    ? error
+    : new FetchThemeError('INTERNAL_ERROR', error instanceof Error ? error.message : 'Unknown error', 500);
+  return res.status(fetchError.status).json({
+    error: fetchError.message,
+    code: fetchError.code,
+    ...(fetchError.details && { details: fetchError.details }),
+  });
+}
+
+// Comma-separated origins allowed to call the API from other sites ("*" for any); same-origin calls are always allowed
+function allowedOrigins(): string[] {
+  return (process.env.CORS_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+}
+
+/**
+ * Sets the CORS headers, or responds with ORIGIN_NOT_ALLOWED
+ * @returns false when a response has already been sent
+ */
+export function applyCors(req: VercelRequest, res: VercelResponse, methods = 'POST, OPTIONS'): boolean {
+  res.setHeader('Vary', 'Origin');
+  const origin = req.headers.origin;
+  if (!origin) return true; // Not a browser cross-origin request
+  let sameOrigin = false;
+  try {
+    sameOrigin = new URL(origin).host === req.headers.host;
+  } catch {
+    // Malformed Origin header, treated as cross-origin
+  }
+  const allowed = allowedOrigins();
+  if (!sameOrigin && !allowed.includes('*') && !allowed.includes(origin)) {
+    sendError(res, new FetchThemeError('ORIGIN_NOT_ALLOWED', `Origin ${origin} is not allowed`, 403));
+    return false;
+  }
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Methods', methods);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  return true;
+}
+
+// Fixed-window request counters per client IP. They live in the function instance,
+// so on serverless platforms the limit applies per instance rather than globally
+const rateLimitWindows = new Map<string, { count: number; resetAt: number }>();
+
+function clientIp(req: VercelRequest): string {
+  // Vercel overwrites X-Forwarded-For with the real client address
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || req.socket?.remoteAddress || 'unknown';
+}
+
+/**
+ * Counts the request against the client's rate limit, or responds with RATE_LIMITED
+ * @returns false when a response has already been sent
+ */
+export function checkRateLimit(req: VercelRequest, res: VercelResponse): boolean {
+  const max = Number(process.env.RATE_LIMIT_MAX) || 30;
+  const windowMs = Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000;
+  const now = Date.now();
+  const ip = clientIp(req);
+
+  let window = rateLimitWindows.get(ip);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + windowMs };
+    rateLimitWindows.set(ip, window);
+  }
+  window.count++;
+  // Drop expired windows so the map does not grow without bound
+  if (rateLimitWindows.size > 10_000) {
+    for (const [key, entry] of rateLimitWindows) {
+      if (entry.resetAt <= now) rateLimitWindows.delete(key);
+    }
+  }
+
+  const retryAfter = Math.ceil((window.resetAt - now) / 1000);
+  res.setHeader('RateLimit-Limit', String(max));
+  res.setHeader('RateLimit-Remaining', String(Math.max(0, max - window.count)));
+  res.setHeader('RateLimit-Reset', String(retryAfter));
+  if (window.count > max) {
+    res.setHeader('Retry-After', String(retryAfter));
+    sendError(res, new FetchThemeError('RATE_LIMITED', 'Too many requests', 429, { retryAfter }));
+    return false;
+  }
+  return true;
+}
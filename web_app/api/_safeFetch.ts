@@ -0,0 +1,193 @@
+// Hardened fetch for user-supplied URLs: http(s) only, no private/loopback/link-local (cloud metadata)
+// addresses, a limited number of redirects, a response size cap and an overall timeout
+// Addresses are checked when the connection is made, so DNS rebinding cannot bypass the check
+import * as dns from 'node:dns';
+import * as http from 'node:http';
+import * as https from 'node:https';
+import * as net from 'node:net';
+import * as zlib from 'node:zlib';
+import { Readable } from 'node:stream';
+import { FetchThemeError } from './_errors.js';
+
+// Limits can be tuned through the environment
+function fetchLimits() {
+  return {
+    maxBytes: Number(process.env.FETCH_MAX_BYTES) || 16 * 1024 * 1024,
+    timeoutMs: Number(process.env.FETCH_TIMEOUT_MS) || 10_000,
+    maxRedirects: Number(process.env.FETCH_MAX_REDIRECTS) || 5,
+  };
+}
+
+// Hostnames that may resolve to private addresses, e.g. "localhost" for a local mock registry
+function exemptHosts(): string[] {
+  return (process.env.FETCH_ALLOWED_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+}
+
+// Non-public ranges (RFC 6890 special-purpose registries)
+const blockedAddresses = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(prefix, bits, 'ipv6');
+}
+
+// BlockList also checks IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 rules
+function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function addressNotAllowed(hostname: string): FetchThemeError {
+  return new FetchThemeError('ADDRESS_NOT_ALLOWED', `${hostname} resolves to a private or reserved address`, 403);
+}
+
+// DNS lookup used by the sockets: refuses to connect when any resolved address is not public
+const guardedLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    if (!exemptHosts().includes(hostname.toLowerCase()) && addresses.some(entry => !isPublicAddress(entry.address))) {
+      return callback(addressNotAllowed(hostname));
+    }
+    if (addresses.length === 0) return callback(new Error(`No addresses found for ${hostname}`));
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as unknown as net.LookupFunction;
+
+function checkTarget(input: string): URL {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new FetchThemeError('INVALID_URL', `Invalid URL: ${input}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FetchThemeError('PROTOCOL_NOT_ALLOWED', `Protocol ${url.protocol} is not allowed`, 400, { protocol: url.protocol });
+  }
+  if (url.username || url.password) {
+    throw new FetchThemeError('INVALID_URL', 'URLs with credentials are not allowed');
+  }
+  // IP literals never go through the lookup, so check them here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !exemptHosts().includes(host.toLowerCase()) && !isPublicAddress(host)) {
+    throw addressNotAllowed(host);
+  }
+  return url;
+}
+
+interface RawResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+function tooLarge(maxBytes: number): FetchThemeError {
+  return new FetchThemeError('RESPONSE_TOO_LARGE', `Response exceeds ${maxBytes} bytes`, 413, { maxBytes });
+}
+
+function decodeBody(res: http.IncomingMessage): Readable {
+  switch ((res.headers['content-encoding'] || '').trim().toLowerCase()) {
+    case 'gzip': case 'x-gzip': return res.pipe(zlib.createGunzip());
+    case 'deflate': return res.pipe(zlib.createInflate());
+    case 'br': return res.pipe(zlib.createBrotliDecompress());
+    default: return res;
+  }
+}
+
+function requestOnce(url: URL, headers: Record<string, string>, maxBytes: number, signal: AbortSignal): Promise<RawResponse> {
+  return new Promise((resolve, reject) => {
+    const fail = (error: unknown) => {
+      req.destroy();
+      if (error instanceof FetchThemeError) reject(error);
+      else if (signal.aborted) reject(new FetchThemeError('TIMEOUT', `Timed out fetching ${url.host}`, 504));
+      else reject(new FetchThemeError('NETWORK_ERROR', `Failed to fetch ${url.host}: ${error instanceof Error ? error.message : error}`, 502));
+    };
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.request(url, {
+      method: 'GET',
+      headers: { 'User-Agent': 'vs2x', ...headers, 'Accept-Encoding': 'gzip, deflate, br' },
+      lookup: guardedLookup,
+      signal,
+    }, res => {
+      const status = res.statusCode || 0;
+      if (status >= 300 && status < 400) {
+        res.resume();
+        resolve({ status, headers: res.headers, body: Buffer.alloc(0) });
+        return;
+      }
+      if (Number(res.headers['content-length']) > maxBytes) {
+        fail(tooLarge(maxBytes));
+        return;
+      }
+      // The cap applies to the decoded body so compressed responses cannot expand past it
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const body = decodeBody(res);
+      body.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          body.destroy();
+          fail(tooLarge(maxBytes));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      body.on('end', () => resolve({ status, headers: res.headers, body: Buffer.concat(chunks) }));
+      body.on('error', fail);
+      res.on('error', fail);
+    });
+    req.on('error', fail);
+    req.end();
+  });
+}
+
+function toHeaders(raw: http.IncomingHttpHeaders): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(raw)) {
+    // The body has already been decoded
+    if (value === undefined || name === 'content-encoding' || name === 'content-length') continue;
+    for (const item of Array.isArray(value) ? value : [value]) headers.append(name, item);
+  }
+  return headers;
+}
+
+/**
+ * Fetches a user-supplied URL with the safeguards above; same shape as fetch for GET requests
+ * @param input absolute http(s) URL
+ * @param init only headers are used
+ */
+export async function safeFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const { maxBytes, timeoutMs, maxRedirects } = fetchLimits();
+  const headers: Record<string, string> = {};
+  new Headers(init.headers).forEach((value, name) => { headers[name] = value; });
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    let url = checkTarget(input);
+    for (let redirects = 0; ; redirects++) {
+      const result = await requestOnce(url, headers, maxBytes, controller.signal);
+      const location = result.headers.location;
+      if (result.status >= 300 && result.status < 400 && location) {
+        if (redirects >= maxRedirects) {
+          throw new FetchThemeError('TOO_MANY_REDIRECTS', `More than ${maxRedirects} redirects`, 502, { maxRedirects });
+        }
+        // Every hop is validated again
+        url = checkTarget(new URL(location, url).href);
+        continue;
+      }
+      const empty = result.status === 204 || result.status === 205 || result.status === 304;
+      return new Response(empty ? null : new Uint8Array(result.body), { status: result.status, headers: toHeaders(result.headers) });
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
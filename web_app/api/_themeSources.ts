@@ -0,0 +1,273 @@
+// Source resolvers for /api/fetch-theme: turn GitHub pages, gists and extension pages or
+// identifiers into something that can be downloaded directly, then load the theme JSON
+// Files prefixed with "_" are not deployed as serverless functions by Vercel
+import { hasThemeReferences, parseJsonc, resolveThemeIncludes, ThemeJson } from '../src/utils/themeIncludeResolver.js';
+import { findVsixTheme, parseExtensionId, readVsix, resolveVsixThemeJson, VsixPackage } from '../src/utils/vsixPackage.js';
+import { ZipTooLargeError } from '../src/utils/archive.js';
+import { FetchThemeError } from './_errors.js';
+
+export type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+type Registry = 'marketplace' | 'openvsx';
+
+export type ThemeSource =
+  // A theme file (JSON/JSONC) that can be fetched as is
+  | { kind: 'file'; url: string }
+  // A .vsix package at a known URL
+  | { kind: 'vsix'; url: string }
+  // An extension looked up in the registries, in order
+  | { kind: 'extension'; publisher: string; name: string; registries: Registry[] };
+
+export interface RemoteTheme {
+  themeJson: ThemeJson;
+  /** Label of the selected theme when the source is an extension package */
+  theme?: string;
+  /** Every theme contributed by the extension package */
+  themes?: { label: string; uiTheme: string }[];
+}
+
+// Maps a failed upstream response to NOT_FOUND or UPSTREAM_ERROR
+function upstreamError(what: string, status: number): FetchThemeError {
+  return status === 404
+    ? new FetchThemeError('NOT_FOUND', `${what} was not found`, 404)
+    : new FetchThemeError('UPSTREAM_ERROR', `Failed to fetch ${what}. Status: ${status}`, 502, { status });
+}
+
+// Registry base URLs; override them through the environment to test against a local mock server
+function registryBaseUrls() {
+  const trim = (url: string) => url.replace(/\/+$/, '');
+  return {
+    githubRaw: trim(process.env.GITHUB_RAW_BASE_URL || 'https://raw.githubusercontent.com'),
+    githubApi: trim(process.env.GITHUB_API_BASE_URL || 'https://api.github.com'),
+    openVsx: trim(process.env.OPEN_VSX_BASE_URL || 'https://open-vsx.org'),
+    marketplace: trim(process.env.MARKETPLACE_BASE_URL || 'https://marketplace.visualstudio.com'),
+  };
+}
+
+// Pages are recognized on the public host and on the configured registry host
+function isRegistryHost(url: URL, baseUrl: string, publicHost: string): boolean {
+  const host = url.host.toLowerCase();
+  return host === publicHost || host === new URL(baseUrl).host.toLowerCase();
+}
+
+// GitHub anchors gist files as "file-" followed by the lowercased name with other characters replaced by "-"
+function gistFileAnchor(filename: string): string {
+  return `file-${filename.toLowerCase().replace(/[^a-z0-9]/g, '-')}`;
+}
+
+async function resolveGistFile(id: string, anchor: string, fetcher: Fetcher): Promise<string> {
+  const apiUrl = `${registryBaseUrls().githubApi}/gists/${id}`;
+  const response = await fetcher(apiUrl, { headers: { 'Accept': 'application/vnd.github+json' } });
+  if (!response.ok) {
+    throw upstreamError(`Gist ${id}`, response.status);
+  }
+  const gist = await response.json() as { files?: Record<string, { filename: string; raw_url: string }> };
+  const files = Object.values(gist.files || {});
+  const file = (anchor && files.find(f => gistFileAnchor(f.filename) === anchor))
+    || files.find(f => /\.jsonc?$/i.test(f.filename))
+    || files[0];
+  if (!file) {
+    throw new FetchThemeError('NOT_FOUND', `Gist ${id} does not contain any files`, 404);
+  }
+  return file.raw_url;
+}
+
+/**
+ * Works out where a theme should be downloaded from
+ * @param input URL or `publisher.extension` identifier entered by the user
+ * @param fetcher fetch implementation used for lookups (gists)
+ */
+export async function resolveThemeSource(input: string, fetcher: Fetcher): Promise<ThemeSource> {
+  const id = parseExtensionId(input);
+  if (id) {
+    return { kind: 'extension', ...id, registries: ['marketplace', 'openvsx'] };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new FetchThemeError('INVALID_URL', 'Invalid URL format');
+  }
+  const bases = registryBaseUrls();
+  const host = url.host.toLowerCase();
+
+  // https://github.com/<owner>/<repo>/blob/<ref>/<path> → raw file
+  if (host === 'github.com' || host === 'www.github.com') {
+    const match = url.pathname.match(/^\/([^/]+)\/([^/]+)\/(?:blob|raw)\/(.+)$/);
+    if (match) {
+      return { kind: 'file', url: `${bases.githubRaw}/${match[1]}/${match[2]}/${match[3]}` };
+    }
+  }
+
+  // https://gist.github.com/<user>/<id>#file-<name> → raw URL of that file
+  if (host === 'gist.github.com') {
+    const match = url.pathname.match(/^\/(?:[^/]+\/)?([0-9a-f]+)\/?$/i);
+    if (match) {
+      return { kind: 'file', url: await resolveGistFile(match[1], url.hash.slice(1), fetcher) };
+    }
+  }
+
+  // https://open-vsx.org/extension/<namespace>/<name>
+  if (isRegistryHost(url, bases.openVsx, 'open-vsx.org')) {
+    const match = url.pathname.match(/^\/extension\/([^/]+)\/([^/]+)/);
+    if (match) {
+      return { kind: 'extension', publisher: match[1], name: match[2], registries: ['openvsx'] };
+    }
+  }
+
+  // https://marketplace.visualstudio.com/items?itemName=<publisher>.<name>
+  if (isRegistryHost(url, bases.marketplace, 'marketplace.visualstudio.com') && url.pathname.startsWith('/items')) {
+    const itemId = parseExtensionId(url.searchParams.get('itemName') || '');
+    if (itemId) {
+      return { kind: 'extension', ...itemId, registries: ['marketplace'] };
+    }
+  }
+
+  if (/\.vsix$/i.test(url.pathname)) {
+    return { kind: 'vsix', url: url.href };
+  }
+  return { kind: 'file', url: url.href };
+}
+
+async function openVsxDownloadUrl(publisher: string, name: string, fetcher: Fetcher): Promise<string | null> {
+  const response = await fetcher(`${registryBaseUrls().openVsx}/api/${encodeURIComponent(publisher)}/${encodeURIComponent(name)}`, {
+    headers: { 'Accept': 'application/json' },
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw upstreamError(`Open VSX entry for ${publisher}.${name}`, response.status);
+  }
+  const metadata = await response.json() as { files?: { download?: string } };
+  return metadata.files?.download || null;
+}
+
+// Returns null when the package does not exist
+async function fetchPackage(url: string, fetcher: Fetcher): Promise<Uint8Array | null> {
+  const response = await fetcher(url, { headers: { 'Accept': 'application/octet-stream, */*' } });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw upstreamError('Extension package', response.status);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Downloads a .vsix package
+ * @param url package URL
+ * @param fetcher fetch implementation
+ */
+export async function downloadVsix(url: string, fetcher: Fetcher): Promise<Uint8Array> {
+  const data = await fetchPackage(url, fetcher);
+  if (!data) {
+    throw new FetchThemeError('NOT_FOUND', 'Extension package was not found', 404);
+  }
+  return data;
+}
+
+/**
+ * Downloads the latest .vsix of an extension from the first registry that has it
+ * @param source extension source from resolveThemeSource
+ * @param fetcher fetch implementation
+ */
+export async function downloadExtension(source: Extract<ThemeSource, { kind: 'extension' }>, fetcher: Fetcher): Promise<Uint8Array> {
+  const { publisher, name } = source;
+  for (const registry of source.registries) {
+    const url = registry === 'marketplace'
+      ? `${registryBaseUrls().marketplace}/_apis/public/gallery/publishers/${encodeURIComponent(publisher)}/vsextensions/${encodeURIComponent(name)}/latest/vspackage`
+      : await openVsxDownloadUrl(publisher, name, fetcher);
+    const data = url && await fetchPackage(url, fetcher);
+    if (data) return data;
+  }
+  throw new FetchThemeError('NOT_FOUND', `Extension ${publisher}.${name} was not found`, 404, { extension: `${publisher}.${name}` });
+}
+
+// Picks the requested theme (or the first one) from a downloaded extension package
+async function loadPackageTheme(data: Uint8Array, requestedTheme?: string): Promise<RemoteTheme> {
+  let pkg: VsixPackage;
+  try {
+    pkg = readVsix(data);
+  } catch (error) {
+    if (error instanceof ZipTooLargeError) {
+      throw new FetchThemeError('RESPONSE_TOO_LARGE', `Extension package exceeds ${error.maxBytes} bytes when unpacked`, 413, { maxBytes: error.maxBytes });
+    }
+    throw new FetchThemeError('INVALID_PACKAGE', error instanceof Error ? error.message : 'Invalid extension package');
+  }
+  const theme = requestedTheme ? findVsixTheme(pkg, requestedTheme) : pkg.themes[0];
+  if (!theme) {
+    throw new FetchThemeError('THEME_NOT_FOUND', `Theme "${requestedTheme}" not found in ${pkg.displayName}`, 404, { theme: requestedTheme || '' });
+  }
+  let themeJson: ThemeJson;
+  try {
+    themeJson = await resolveVsixThemeJson(pkg, theme);
+  } catch (error) {
+    throw new FetchThemeError('INVALID_PACKAGE', error instanceof Error ? error.message : 'Invalid theme file');
+  }
+  console.log(`Resolved theme "${theme.label}" from extension ${pkg.id}`);
+  return {
+    themeJson,
+    theme: theme.label,
+    themes: pkg.themes.map(({ label, uiTheme }) => ({ label, uiTheme })),
+  };
+}
+
+// Fetches a theme file and merges "include" chains and tokenColors file references relative to its URL
+async function loadThemeFile(url: string, fetcher: Fetcher): Promise<RemoteTheme> {
+  console.log(`Fetching theme from URL: ${url}`);
+  const response = await fetcher(url, { headers: { 'Accept': 'application/json, text/plain, */*' } });
+  if (!response.ok) {
+    throw upstreamError('Theme file', response.status);
+  }
+  const contentType = response.headers.get('content-type');
+  const rawText = await response.text();
+  const trimmed = rawText.trim();
+  // Check if content type suggests JSON or if it looks like JSON
+  if (!contentType?.includes('json') && !(trimmed.startsWith('{') && trimmed.endsWith('}'))) {
+    throw new FetchThemeError('NOT_JSON', `Fetched content does not appear to be JSON (${contentType || 'unknown type'})`);
+  }
+
+  let json: unknown;
+  try {
+    json = parseJsonc(rawText);
+  } catch (error) {
+    throw new FetchThemeError('INVALID_JSON', error instanceof Error ? error.message : 'Invalid JSONC');
+  }
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new FetchThemeError('INVALID_JSON', 'Fetched JSON is not an object');
+  }
+
+  let themeJson = json as ThemeJson;
+  if (hasThemeReferences(themeJson)) {
+    const loadReferencedFile = async (fileUrl: string) => {
+      console.log(`Fetching referenced theme file: ${fileUrl}`);
+      const fileResponse = await fetcher(fileUrl, { headers: { 'Accept': 'application/json, application/xml, text/plain, */*' } });
+      if (!fileResponse.ok) {
+        throw upstreamError(`Referenced file ${fileUrl}`, fileResponse.status);
+      }
+      return fileResponse.text();
+    };
+    try {
+      themeJson = await resolveThemeIncludes(themeJson, url, loadReferencedFile);
+    } catch (error) {
+      // Blocked addresses, timeouts and size limits keep their own codes
+      if (error instanceof FetchThemeError && error.code !== 'NOT_FOUND' && error.code !== 'UPSTREAM_ERROR') throw error;
+      throw new FetchThemeError('INCLUDE_FAILED', `Failed to resolve theme include: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return { themeJson };
+}
+
+/**
+ * Loads a theme from a URL or extension identifier
+ * @param input URL or `publisher.extension` identifier entered by the user
+ * @param requestedTheme theme label to pick when the source is an extension package
+ * @param fetcher fetch implementation (the hardened fetch in production)
+ */
+export async function fetchRemoteTheme(input: string, requestedTheme: string | undefined, fetcher: Fetcher): Promise<RemoteTheme> {
+  const source = await resolveThemeSource(input, fetcher);
+  switch (source.kind) {
+    case 'file': return loadThemeFile(source.url, fetcher);
+    case 'vsix': return loadPackageTheme(await downloadVsix(source.url, fetcher), requestedTheme);
+    case 'extension': return loadPackageTheme(await downloadExtension(source, fetcher), requestedTheme);
+  }
+}
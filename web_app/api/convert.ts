@@ -0,0 +1,155 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { parseVscodeTheme, ParsedVscodeTheme } from '../src/utils/vscodeThemeParser.js';
+import { convertToXcodeTheme, XcodeThemeOptions } from '../src/utils/xcodeThemeGenerator.js';
+import { hasThemeReferences, parseJsonc, ThemeJson } from '../src/utils/themeIncludeResolver.js';
+import { sanitizeOverrides } from '../src/utils/mappingPreset.js';
+import { normalizeThemeType } from '../src/utils/themeAppearance.js';
+import { applyThemeTransforms, sanitizeThemeTransforms, ThemeTransforms } from '../src/utils/themeTransforms.js';
+import { defaultXcodeFont, xcodeFontFromCss } from '../src/utils/xcodeFonts.js';
+import { safeFileName } from '../src/utils/fileNames.js';
+import { FetchThemeError } from './_errors.js';
+import { applyCors, checkRateLimit, sendError } from './_http.js';
+import { safeFetch } from './_safeFetch.js';
+import { fetchRemoteTheme } from './_themeSources.js';
+
+// Request body:
+//   theme    inline theme, as an object or JSON/JSONC text (its "include" references cannot be resolved)
+//   url      theme URL or extension identifier, loaded like /api/fetch-theme; `label` picks an extension theme
+//   options  { overrides, font, fontSize, appearance, flattenAlpha, minContrast, ensureContrast,
+//              transforms: { brightness, contrast, saturation, hueRotate, background, invert } }
+//   format   "xccolortheme" (default) for the file itself, "json" for { name, fileName, xml, report }
+interface ConvertRequest {
+  theme?: unknown;
+  url?: unknown;
+  label?: unknown;
+  options?: Record<string, unknown>;
+  format?: unknown;
+}
+
+function invalidOption(message: string): FetchThemeError {
+  return new FetchThemeError('INVALID_OPTIONS', message);
+}
+
+// Validates the options the web app and the CLI offer; unknown keys are ignored
+function readOptions(options: Record<string, unknown> = {}): {
+  xcode: XcodeThemeOptions;
+  transforms: ThemeTransforms;
+  appearance?: ParsedVscodeTheme['type'];
+} {
+  const problems: string[] = [];
+  const xcode: XcodeThemeOptions = { overrides: sanitizeOverrides(options.overrides, problems) };
+  if (problems.length > 0) throw invalidOption(problems.join('; '));
+  const transforms = sanitizeThemeTransforms(options.transforms);
+  if (options.flattenAlpha !== undefined) xcode.flattenAlpha = options.flattenAlpha === true;
+  if (options.ensureContrast !== undefined) xcode.ensureContrast = options.ensureContrast === true;
+  if (options.minContrast !== undefined) {
+    const ratio = Number(options.minContrast);
+    if (!(ratio >= 1 && ratio <= 21)) throw invalidOption('minContrast must be a number between 1 and 21');
+    xcode.minContrast = ratio;
+  }
+  let font = defaultXcodeFont;
+  if (options.font !== undefined) {
+    const family = typeof options.font === 'string' ? xcodeFontFromCss(options.font) : null;
+    if (!family) throw invalidOption('font must name a font family');
+    font = { ...font, family: family.family };
+  }
+  if (options.fontSize !== undefined) {
+    const size = Number(options.fontSize);
+    if (!(size > 0 && size <= 288)) throw invalidOption('fontSize must be a positive number');
+    font = { ...font, size };
+  }
+  xcode.font = font;
+  if (options.appearance === undefined) return { xcode, transforms };
+  const appearance = normalizeThemeType(options.appearance);
+  if (!appearance) throw invalidOption('appearance must be dark, light, hc or hcLight');
+  return { xcode, transforms, appearance };
+}
+
+// Name for themes without one: the last path segment of the URL, or the extension theme label
+function nameFromUrl(input: string, label?: string): string {
+  if (label) return label;
+  try {
+    const segment = new URL(input).pathname.split('/').filter(Boolean).pop();
+    if (segment) return decodeURIComponent(segment).replace(/\.[^.]+$/, '');
+  } catch {
+    // Extension identifiers are not URLs
+  }
+  return input;
+}
+
+async function loadThemeJson(body: ConvertRequest): Promise<{ json: ThemeJson; fallbackName: string }> {
+  if (body.theme !== undefined && body.theme !== null && body.theme !== '') {
+    let json: unknown = body.theme;
+    if (typeof json === 'string') {
+      try {
+        json = parseJsonc(json);
+      } catch (error) {
+        throw new FetchThemeError('INVALID_JSON', error instanceof Error ? error.message : 'Invalid JSON');
+      }
+    }
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+      throw new FetchThemeError('INVALID_THEME', 'The theme must be a JSON object');
+    }
+    if (hasThemeReferences(json as ThemeJson)) {
+      throw new FetchThemeError('INCLUDE_FAILED', 'Inline themes cannot include other files; pass the theme URL instead');
+    }
+    return { json: json as ThemeJson, fallbackName: 'Untitled Theme' };
+  }
+  if (typeof body.url === 'string' && body.url) {
+    const label = typeof body.label === 'string' && body.label ? body.label : undefined;
+    // Every request, including include references and registry lookups, goes through the hardened fetch
+    const result = await fetchRemoteTheme(body.url, label, safeFetch);
+    return { json: result.themeJson, fallbackName: nameFromUrl(body.url, result.theme) };
+  }
+  throw new FetchThemeError('THEME_REQUIRED', 'A theme or a url is required in the request body');
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only same-origin requests and the origins listed in CORS_ALLOWED_ORIGINS are allowed
+  if (!applyCors(req, res)) return;
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return sendError(res, new FetchThemeError('METHOD_NOT_ALLOWED', 'Method Not Allowed', 405));
+  }
+
+  if (!checkRateLimit(req, res)) return;
+
+  const body: ConvertRequest = req.body && typeof req.body === 'object' ? req.body : {};
+  const format = body.format ?? req.query.format ?? 'xccolortheme';
+  if (format !== 'xccolortheme' && format !== 'json') {
+    return sendError(res, invalidOption('format must be "xccolortheme" or "json"'));
+  }
+
+  try {
+    const { xcode, transforms, appearance } = readOptions(body.options && typeof body.options === 'object' ? body.options : {});
+    const { json, fallbackName } = await loadThemeJson(body);
+    let theme: ParsedVscodeTheme;
+    try {
+      theme = parseVscodeTheme(json);
+    } catch (error) {
+      throw new FetchThemeError('INVALID_THEME', error instanceof Error ? error.message : 'Invalid theme');
+    }
+    if (!json.name) theme = { ...theme, name: fallbackName };
+    if (appearance) theme = { ...theme, type: appearance, typeInferred: false, declaredType: undefined };
+    theme = applyThemeTransforms(theme, transforms);
+
+    const { xml, report } = convertToXcodeTheme(theme, xcode);
+    const fileName = `${safeFileName(theme.name)}.xccolortheme`;
+    if (format === 'json') {
+      return res.status(200).json({ name: theme.name, fileName, xml, report });
+    }
+    // The plain filename is an ASCII fallback for clients that ignore filename*
+    const asciiName = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+    return res.status(200).send(xml);
+  } catch (error: unknown) {
+    console.error('Error converting theme:', error);
+    return sendError(res, error);
+  }
+}
@@ -0,0 +1,439 @@
+// VS2X command-line converter: batch-converts VS Code themes to .xccolortheme files
+// Reuses the same parser and generator as the web app; built with `npm run build:cli`
+import { promises as fs } from 'node:fs';
+import { homedir } from 'node:os';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseVscodeTheme, ParsedVscodeTheme } from '../src/utils/vscodeThemeParser';
+import { convertToXcodeTheme, XcodeThemeOptions } from '../src/utils/xcodeThemeGenerator';
+import { ConversionReport, hasConversionProblems } from '../src/utils/conversionReport';
+import { findThemeEntries, hasThemeReferences, parseJsonc, resolveThemeIncludes, ThemeJson } from '../src/utils/themeIncludeResolver';
+import { uniqueFileName } from '../src/utils/fileNames';
+import { loadVsixTheme, readVsix, VsixPackage, VsixTheme } from '../src/utils/vsixPackage';
+import { parseMappingPreset } from '../src/utils/mappingPreset';
+import { parseTmTheme } from '../src/utils/tmTheme';
+import { applyVscodeSettings, fontFromSettings, parseVscodeSettings, VscodeSettings } from '../src/utils/vscodeSettings';
+import { applyThemeTransforms, ThemeTransforms, themeTransformRanges } from '../src/utils/themeTransforms';
+import { defaultXcodeFont, xcodeFontFromCss } from '../src/utils/xcodeFonts';
+import { mergeXcodeTheme, parseXcodeThemePlist, XcodeMergeGroup, xcodeMergeGroups, XcodeThemeChange } from '../src/utils/xcodeThemeMerge';
+import { PlistDict, serializePlist } from '../src/utils/plist';
+import { parseColor } from '../src/utils/color';
+
+const VERSION = '0.0.0';
+const XCODE_THEMES_DIR = path.join(homedir(), 'Library/Developer/Xcode/UserData/FontAndColorThemes');
+
+const usage = `Usage: vs2x convert [options] <input...>
+
+Convert VS Code color themes (JSON/JSONC or .vsix extensions) and TextMate .tmTheme files
+to Xcode .xccolortheme files.
+Inputs may be files or directories; use "-" to read a theme from stdin.
+Every theme contributed by a .vsix is converted unless --theme is given.
+
+Options:
+  -o, --out <dir>        Write converted themes into <dir> (default: next to each input)
+      --stdout           Write the converted theme to stdout (single input only)
+      --install          Write into Xcode's FontAndColorThemes directory
+                         (${XCODE_THEMES_DIR})
+      --install-dir <dir>
+                         Write into the given FontAndColorThemes directory
+      --theme <label>    Only convert the .vsix theme with this label (repeatable)
+      --flatten-alpha    Blend translucent colors over the editor background
+      --preset <file>    Apply the key overrides of a mapping preset saved from the web app
+      --settings <file>  Apply the color customizations and editor font of a VS Code settings.json
+      --font <family>    Editor and console font, e.g. "JetBrains Mono" (default: SF Mono,
+                         or editor.fontFamily from --settings)
+      --font-size <size> Font size in points (default: 12, or editor.fontSize from --settings)
+      --brightness <n>   Shift every color toward white (1 to 100) or black (-100 to -1)
+      --contrast <n>     Spread (1 to 100) or compress (-100 to -1) the lightness of every color
+      --saturation <n>   Scale the saturation of every color by -100 to 100 percent
+      --hue-rotate <deg> Rotate the hue of every color by -180 to 180 degrees
+                         Negative values need the --flag=value form, e.g. --saturation=-30
+      --background <color>
+                         Replace the editor background, and every color equal to it
+      --invert <light|dark>
+                         Invert the lightness of a theme that is not already light/dark
+      --base <file>      Merge into an existing .xccolortheme, keeping every key outside the
+                         replaced groups (including all fonts)
+      --merge <groups>   Comma-separated groups to replace with --base: syntax, editor, console,
+                         markup (default: syntax)
+      --min-contrast <ratio>
+                         Report colors below this WCAG contrast ratio
+      --ensure-contrast  Adjust colors below the minimum contrast (default 4.5), keeping their hue
+      --report           Print a conversion report for each theme to stderr
+      --report-json <file>
+                         Write the conversion reports of all themes as JSON ("-" for stdout)
+      --strict           Exit with status 3 when a report lists invalid colors, unusable rules,
+                         low contrast or other problems
+  -h, --help             Show this help
+  -v, --version          Show the version
+`;
+
+interface ThemeInput {
+  /** Path used for messages, include resolution and the default output location */
+  source: string;
+  text: string;
+  /** Set when the theme is contributed by a .vsix package */
+  vsix?: { file: string; pkg: VsixPackage; theme: VsixTheme };
+}
+
+interface ConvertedTheme {
+  source: string;
+  theme: ParsedVscodeTheme;
+  plist: PlistDict;
+  xml: string;
+  report: ConversionReport;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...await walk(file));
+    else if (/\.(jsonc?|tmTheme|plist|vsix)$/i.test(entry.name)) files.push(file);
+  }
+  return files;
+}
+
+// Lists the themes of a .vsix, keeping only the requested labels when any are given
+async function collectVsixInputs(file: string, labels: string[]): Promise<ThemeInput[]> {
+  const pkg = readVsix(new Uint8Array(await fs.readFile(file)));
+  const wanted = labels.map(label => label.toLowerCase());
+  const themes = wanted.length > 0 ? pkg.themes.filter(theme => wanted.includes(theme.label.toLowerCase())) : pkg.themes;
+  if (themes.length === 0) {
+    throw new Error(`${file}: no theme named ${labels.join(', ')} (available: ${pkg.themes.map(theme => theme.label).join(', ')})`);
+  }
+  return themes.map(theme => ({ source: `${file}:${theme.path}`, text: '', vsix: { file, pkg, theme } }));
+}
+
+// Expands directories into the theme entry files they contain, skipping files that are only included by others
+async function collectInputs(args: string[], labels: string[]): Promise<ThemeInput[]> {
+  const inputs: ThemeInput[] = [];
+  for (const arg of args) {
+    if (arg === '-') {
+      inputs.push({ source: path.join(process.cwd(), 'stdin.json'), text: await readStdin() });
+      continue;
+    }
+    const stat = await fs.stat(arg).catch(() => null);
+    if (!stat) throw new Error(`${arg}: no such file or directory`);
+    if (stat.isDirectory()) {
+      const files: Record<string, string> = {};
+      const packages: string[] = [];
+      for (const file of await walk(arg)) {
+        if (/\.vsix$/i.test(file)) packages.push(file);
+        else files[file] = await fs.readFile(file, 'utf8');
+      }
+      const entries = new Set(findThemeEntries(files));
+      for (const [file, text] of Object.entries(files)) {
+        // Unparsable JSON is reported as a failure instead of being skipped silently
+        if (!entries.has(file) && /\.jsonc?$/i.test(file) && path.basename(file) !== 'package.json') {
+          try {
+            parseJsonc(text);
+          } catch {
+            entries.add(file);
+          }
+        }
+      }
+      for (const entry of [...entries].sort()) {
+        inputs.push({ source: entry, text: files[entry] });
+      }
+      for (const file of packages.sort()) {
+        inputs.push(...await collectVsixInputs(file, labels));
+      }
+    } else if (/\.vsix$/i.test(arg)) {
+      inputs.push(...await collectVsixInputs(arg, labels));
+    } else {
+      inputs.push({ source: arg, text: await fs.readFile(arg, 'utf8') });
+    }
+  }
+  return inputs;
+}
+
+async function convertInput(
+  input: ThemeInput,
+  options: XcodeThemeOptions,
+  settings?: VscodeSettings,
+  transforms: ThemeTransforms = {},
+): Promise<ConvertedTheme> {
+  // settings.json customizations first, then the color adjustments
+  const prepare = (theme: ParsedVscodeTheme) => applyThemeTransforms(settings ? applyVscodeSettings(theme, settings) : theme, transforms);
+  if (input.vsix) {
+    const theme = prepare(await loadVsixTheme(input.vsix.pkg, input.vsix.theme));
+    return { source: input.source, theme, ...convertToXcodeTheme(theme, options) };
+  }
+  if (/\.(tmTheme|plist)$/i.test(input.source)) {
+    const theme = prepare(parseTmTheme(input.text, path.basename(input.source).replace(/\.[^.]+$/, '')));
+    return { source: input.source, theme, ...convertToXcodeTheme(theme, options) };
+  }
+  const json = parseJsonc(input.text);
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error('not a JSON object');
+  }
+  let resolved = json as ThemeJson;
+  if (hasThemeReferences(resolved)) {
+    resolved = await resolveThemeIncludes(resolved, input.source, file => fs.readFile(file, 'utf8'));
+  }
+  let theme = parseVscodeTheme(resolved);
+  if (!resolved.name) {
+    theme = { ...theme, name: path.basename(input.source).replace(/\.[^.]+$/, '') };
+  }
+  theme = prepare(theme);
+  return { source: input.source, theme, ...convertToXcodeTheme(theme, options) };
+}
+
+// Human-readable summary of a conversion report
+function formatReport(source: string, report: ConversionReport): string {
+  const declared = report.declaredAppearance ? ` although the theme declares ${report.declaredAppearance}` : '';
+  const appearance = `${report.appearance}${report.appearanceInferred ? `, detected from the background${declared}` : ''}`;
+  const lines = [`Report for ${source} (${report.name}, ${appearance}):`];
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push(`  ${title} (${items.length}):`, ...items.map(item => `    ${item}`));
+  };
+  section('Fallbacks', report.fallbacks.map(({ key, source }) =>
+    source.type === 'fallback' ? `${key} <- ${source.key}` : `${key} <- Xcode default`));
+  const inferredFrom = { scope: 'related scope', color: 'workbench color', palette: 'theme palette' };
+  section('Inferred', report.inferred.map(({ key, via, from }) => `${key} ~ ${from} (${inferredFrom[via]})`));
+  section('Not set (shown as plain text)', report.missingKeys);
+  section('Invalid colors (ignored)', report.invalidColors.map(({ path, value }) => `${path}: ${value}`));
+  section('Dropped token rules', report.droppedTokenRules.map(({ index, reason }) => `tokenColors[${index}]: ${reason}`));
+  section('Dropped semantic colors', report.droppedSemanticColors.map(({ selector, reason }) => `${selector}: ${reason}`));
+  section('Unused token rules', report.unusedTokenRules.map(({ index, name, scope }) =>
+    `tokenColors[${index}]${name ? ` ${name}` : ''}: ${scope}`));
+  section('Unused semantic colors', report.unusedSemanticColors);
+  section('Low contrast', report.lowContrast.map(({ key, against, ratio }) => `${key} / ${against}: ${ratio.toFixed(2)}:1`));
+  section('Contrast adjustments', report.contrastFixes.map(({ key, ratio, from, to }) =>
+    `${key}: ${ratio.toFixed(2)}:1, ${from} -> ${to}`));
+  section('Problems', report.problems);
+  if (lines.length === 1) lines.push('  No fallbacks or problems');
+  return lines.join('\n') + '\n';
+}
+
+// Keys of the --base theme replaced by the conversion
+function formatChanges(source: string, changes: XcodeThemeChange[]): string {
+  const lines = [`Changes to the base theme for ${source} (${changes.length}):`];
+  for (const { key, from, to } of changes) lines.push(`  ${key}: ${from ?? '(added)'} -> ${to}`);
+  return lines.join('\n') + '\n';
+}
+
+async function main(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o' },
+        stdout: { type: 'boolean' },
+        install: { type: 'boolean' },
+        'install-dir': { type: 'string' },
+        theme: { type: 'string', multiple: true },
+        'flatten-alpha': { type: 'boolean' },
+        preset: { type: 'string' },
+        settings: { type: 'string' },
+        font: { type: 'string' },
+        'font-size': { type: 'string' },
+        brightness: { type: 'string' },
+        contrast: { type: 'string' },
+        saturation: { type: 'string' },
+        'hue-rotate': { type: 'string' },
+        background: { type: 'string' },
+        invert: { type: 'string' },
+        base: { type: 'string' },
+        merge: { type: 'string' },
+        'min-contrast': { type: 'string' },
+        'ensure-contrast': { type: 'boolean' },
+        report: { type: 'boolean' },
+        'report-json': { type: 'string' },
+        strict: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        version: { type: 'boolean', short: 'v' },
+      },
+    });
+  } catch (error) {
+    process.stderr.write(`vs2x: ${error instanceof Error ? error.message : error}\n\n${usage}`);
+    return 2;
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    process.stdout.write(usage);
+    return 0;
+  }
+  if (values.version) {
+    process.stdout.write(`${VERSION}\n`);
+    return 0;
+  }
+  const [command, ...args] = positionals;
+  if (command !== 'convert' || args.length === 0) {
+    process.stderr.write(usage);
+    return 2;
+  }
+
+  const installDir = values['install-dir'] || (values.install ? XCODE_THEMES_DIR : null);
+  if (values.stdout && (values.out || installDir)) {
+    process.stderr.write('vs2x: --stdout cannot be combined with --out, --install or --install-dir\n');
+    return 2;
+  }
+
+  let inputs: ThemeInput[];
+  try {
+    inputs = await collectInputs(args, values.theme || []);
+  } catch (error) {
+    process.stderr.write(`vs2x: ${error instanceof Error ? error.message : error}\n`);
+    return 1;
+  }
+  if (inputs.length === 0) {
+    process.stderr.write('vs2x: no theme files found\n');
+    return 1;
+  }
+  const toStdout = values.stdout || (inputs.length === 1 && args[0] === '-' && !values.out && !installDir);
+  if (toStdout && inputs.length > 1) {
+    process.stderr.write('vs2x: --stdout can only be used with a single theme\n');
+    return 2;
+  }
+  if (toStdout && values['report-json'] === '-') {
+    process.stderr.write('vs2x: --report-json - cannot be combined with --stdout\n');
+    return 2;
+  }
+
+  const options: XcodeThemeOptions = { flattenAlpha: values['flatten-alpha'], ensureContrast: values['ensure-contrast'] };
+  if (values['min-contrast'] !== undefined) {
+    const ratio = Number(values['min-contrast']);
+    if (!(ratio >= 1 && ratio <= 21)) {
+      process.stderr.write('vs2x: --min-contrast must be a number between 1 and 21\n');
+      return 2;
+    }
+    options.minContrast = ratio;
+  }
+  // Preset entries for unknown keys are listed with each report's problems
+  const presetProblems: string[] = [];
+  if (values.preset) {
+    try {
+      options.overrides = parseMappingPreset(await fs.readFile(values.preset, 'utf8'), presetProblems);
+    } catch (error) {
+      process.stderr.write(`vs2x: ${values.preset}: ${error instanceof Error ? error.message : error}\n`);
+      return 1;
+    }
+  }
+  let settings: VscodeSettings | undefined;
+  if (values.settings) {
+    try {
+      settings = parseVscodeSettings(await fs.readFile(values.settings, 'utf8'));
+    } catch (error) {
+      process.stderr.write(`vs2x: ${values.settings}: ${error instanceof Error ? error.message : error}\n`);
+      return 1;
+    }
+  }
+  // --font and --font-size take precedence over the editor font of settings.json
+  let font = (settings && fontFromSettings(settings)) || defaultXcodeFont;
+  if (values.font !== undefined) {
+    const family = xcodeFontFromCss(values.font);
+    if (!family) {
+      process.stderr.write(`vs2x: --font must name a font family, not "${values.font}"\n`);
+      return 2;
+    }
+    font = { ...font, family: family.family };
+  }
+  if (values['font-size'] !== undefined) {
+    const size = Number(values['font-size']);
+    if (!(size > 0)) {
+      process.stderr.write('vs2x: --font-size must be a positive number\n');
+      return 2;
+    }
+    font = { ...font, size };
+  }
+  options.font = font;
+  const transforms: ThemeTransforms = {};
+  for (const [flag, key] of [['brightness', 'brightness'], ['contrast', 'contrast'], ['saturation', 'saturation'], ['hue-rotate', 'hueRotate']] as const) {
+    if (values[flag] === undefined) continue;
+    const value = Number(values[flag]);
+    const [min, max] = themeTransformRanges[key];
+    if (!(value >= min && value <= max)) {
+      process.stderr.write(`vs2x: --${flag} must be a number between ${min} and ${max}\n`);
+      return 2;
+    }
+    transforms[key] = value;
+  }
+  if (values.background !== undefined) {
+    if (!parseColor(values.background)) {
+      process.stderr.write(`vs2x: --background must be a CSS color, not "${values.background}"\n`);
+      return 2;
+    }
+    transforms.background = values.background;
+  }
+  if (values.invert !== undefined) {
+    if (values.invert !== 'light' && values.invert !== 'dark') {
+      process.stderr.write('vs2x: --invert must be light or dark\n');
+      return 2;
+    }
+    transforms.invert = values.invert;
+  }
+  let base: PlistDict | null = null;
+  const mergeGroups = (values.merge ?? 'syntax').split(',').map(group => group.trim()).filter(Boolean);
+  const unknownGroup = mergeGroups.find(group => !xcodeMergeGroups.includes(group as XcodeMergeGroup));
+  if (unknownGroup !== undefined) {
+    process.stderr.write(`vs2x: unknown --merge group "${unknownGroup}" (expected ${xcodeMergeGroups.join(', ')})\n`);
+    return 2;
+  }
+  if (values.base) {
+    try {
+      base = parseXcodeThemePlist(await fs.readFile(values.base, 'utf8'));
+    } catch (error) {
+      process.stderr.write(`vs2x: ${values.base}: ${error instanceof Error ? error.message : error}\n`);
+      return 1;
+    }
+  }
+  let failures = 0;
+  let problems = 0;
+  const reports: Array<{ source: string } & ConversionReport> = [];
+  // Names already written per output directory, so themes sharing a name do not overwrite each other
+  const usedNames = new Map<string, Set<string>>();
+  for (const input of inputs) {
+    try {
+      const result = await convertInput(input, options, settings, transforms);
+      result.report.problems.push(...presetProblems);
+      reports.push({ source: input.source, ...result.report });
+      if (hasConversionProblems(result.report)) problems++;
+      if (values.report) process.stderr.write(formatReport(input.source, result.report));
+      if (base) {
+        const merged = mergeXcodeTheme(base, result.plist, mergeGroups as XcodeMergeGroup[]);
+        result.xml = serializePlist(merged.plist);
+        if (values.report) process.stderr.write(formatChanges(input.source, merged.changes));
+      }
+      if (toStdout) {
+        process.stdout.write(result.xml);
+        continue;
+      }
+      const outDir = path.resolve(installDir || values.out || path.dirname(input.vsix?.file ?? input.source));
+      await fs.mkdir(outDir, { recursive: true });
+      const used = usedNames.get(outDir) || new Set<string>();
+      usedNames.set(outDir, used);
+      const outFile = path.join(outDir, `${uniqueFileName(result.theme.name, used)}.xccolortheme`);
+      await fs.writeFile(outFile, result.xml, 'utf8');
+      process.stderr.write(`${input.source} -> ${outFile}\n`);
+    } catch (error) {
+      failures++;
+      process.stderr.write(`vs2x: ${input.source}: ${error instanceof Error ? error.message : error}\n`);
+    }
+  }
+  const reportFile = values['report-json'];
+  if (reportFile) {
+    const json = JSON.stringify(reports, null, 2) + '\n';
+    if (reportFile === '-') process.stdout.write(json);
+    else await fs.writeFile(reportFile, json, 'utf8');
+  }
+  if (failures > 0) return 1;
+  return values.strict && problems > 0 ? 3 : 0;
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+}, error => {
+  process.stderr.write(`vs2x: ${error instanceof Error ? error.stack : error}\n`);
+  process.exitCode = 1;
+});
@@ -1,11 +1,39 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
+import { TFunction } from 'i18next';
 import { FiUploadCloud, FiGlobe, FiDownloadCloud, FiLoader, FiInfo, FiStar, FiCopy, FiCheck, FiGithub, FiLink, FiHeart } from 'react-icons/fi';
 import { parseVscodeTheme, ParsedVscodeTheme } from './utils/vscodeThemeParser';
-import { generateXcodeTheme } from './utils/xcodeThemeGenerator';
-import { parse } from 'jsonc-parser';
+import { convertToXcodeTheme, generateXcodeTheme, XcodeOverrides, XcodeThemeOptions } from './utils/xcodeThemeGenerator';
+import { createMapLoader, findThemeEntries, findThemeEntry, hasThemeReferences, MissingThemeFileError, parseJsonc, resolveThemeIncludes, ThemeJson } from './utils/themeIncludeResolver';
+import { createZip, readZipTextFiles } from './utils/archive';
+import { parseXcodeTheme } from './utils/xcodeThemeParser';
+import { parseTmTheme } from './utils/tmTheme';
+import { emitVscodeTheme } from './utils/vscodeThemeEmitter';
+import { VscodeTheme } from './utils/vscodeThemeParser';
+import { loadVsixTheme, parseExtensionId, readVsix, VsixPackage } from './utils/vsixPackage';
+import { safeFileName, uniqueFileName } from './utils/fileNames';
+import VsixThemeList from './components/VsixThemeList';
+import ThemePreview from './components/ThemePreview';
+import MappingEditor from './components/MappingEditor';
+import ConversionReportView from './components/ConversionReportView';
+import { defaultMinContrast } from './utils/contrastCheck';
+import { applyVscodeSettings, fontFromSettings, parseVscodeSettings, VscodeSettings } from './utils/vscodeSettings';
+import { applyThemeTransforms, ThemeTransforms, transformsFromPlist } from './utils/themeTransforms';
+import { defaultXcodeFont, XcodeFont, xcodeFontFamilies } from './utils/xcodeFonts';
+import { mergeXcodeTheme, parseXcodeThemePlist, XcodeMergeGroup, xcodeMergeGroups } from './utils/xcodeThemeMerge';
+import { PlistDict, serializePlist } from './utils/plist';
+import MergeChangesView from './components/MergeChangesView';
+import BatchThemeList from './components/BatchThemeList';
+import ThemeTransformControls from './components/ThemeTransformControls';
+import { BatchFile, BatchTheme, loadBatchThemes, parseThemeFiles, readDroppedFiles } from './utils/batchThemes';
+import { ThemeFileError } from './utils/themeErrors';
 import './index.css';
 
+// Error text for the UI: errors from reading theme files are translated by code, others keep their message
+function errorText(t: TFunction, err: Error): string {
+  return err instanceof ThemeFileError ? t(`themeErrors.${err.code}`, { ...err.details, defaultValue: err.message }) : err.message;
+}
+
 // Define Theme Types
 interface Theme {
   name: string;
@@ -37,7 +65,65 @@ function App() {
   const [isProcessing, setIsProcessing] = useState(false); // General processing state
   const [isFetchingUrl, setIsFetchingUrl] = useState(false); // Specific state for URL fetching
   const [currentTheme, setCurrentTheme] = useState<Theme>(themes[0]);
+  const [flattenAlpha, setFlattenAlpha] = useState(false); // Blend translucent colors over the editor background
+  const [minContrast, setMinContrast] = useState(defaultMinContrast); // Colors below this WCAG ratio are flagged in the report
+  const [ensureContrast, setEnsureContrast] = useState(false); // Adjust flagged colors until they reach minContrast
+  // Per-key overrides from the mapping editor; kept across themes so a loaded preset applies to each of them
+  const [overrides, setOverrides] = useState<XcodeOverrides>({});
+  const [font, setFont] = useState<XcodeFont>(defaultXcodeFont);
+  // Uploaded VS Code settings.json; like the overrides it applies to every theme
+  const [vscodeSettings, setVscodeSettings] = useState<{ name: string; settings: VscodeSettings } | null>(null);
+  // Whole-theme color adjustments, applied after the settings.json customizations
+  const [transforms, setTransforms] = useState<ThemeTransforms>({});
+  // Options shared by the download and the live preview
+  const xcodeOptions = useMemo<XcodeThemeOptions>(
+    () => ({ font, flattenAlpha, overrides, minContrast, ensureContrast }),
+    [font, flattenAlpha, overrides, minContrast, ensureContrast],
+  );
+  // Applies the settings.json color customizations, then the color adjustments
+  const prepareTheme = useCallback((theme: ParsedVscodeTheme) => applyThemeTransforms(
+    vscodeSettings ? applyVscodeSettings(theme, vscodeSettings.settings) : theme,
+    transforms,
+  ), [vscodeSettings, transforms]);
+  const effectiveTheme = useMemo(() => (parsedTheme ? prepareTheme(parsedTheme) : null), [parsedTheme, prepareTheme]);
+  // Existing .xccolortheme to merge into; only the selected groups of its keys are replaced
+  const [baseTheme, setBaseTheme] = useState<{ name: string; plist: PlistDict } | null>(null);
+  const [mergeGroups, setMergeGroups] = useState<XcodeMergeGroup[]>(['syntax']);
+  // Conversion for the theme in the details card, recomputed as the options change
+  const conversion = useMemo(() => {
+    if (!effectiveTheme) return null;
+    try {
+      return convertToXcodeTheme(effectiveTheme, xcodeOptions);
+    } catch (error) {
+      console.error('Conversion report error:', error);
+      return null;
+    }
+  }, [effectiveTheme, xcodeOptions]);
+  const conversionReport = conversion?.report ?? null;
+  const mergedTheme = useMemo(() => {
+    if (!conversion || !baseTheme) return null;
+    const merge = mergeXcodeTheme(baseTheme.plist, conversion.plist, mergeGroups);
+    return { ...merge, xml: serializePlist(merge.plist) };
+  }, [conversion, baseTheme, mergeGroups]);
   const hasPushedSidebarAd = useRef(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // Sibling files from an uploaded folder/archive or provided by the user, keyed by path
+  const [themeFiles, setThemeFiles] = useState<Record<string, string>>({});
+  // VS Code theme converted back from an uploaded .xccolortheme
+  const [reverseTheme, setReverseTheme] = useState<VscodeTheme | null>(null);
+  // Theme waiting for a file referenced by "include" or a tokenColors path
+  const [pendingTheme, setPendingTheme] = useState<{ json: ThemeJson; path: string; missing: string } | null>(null);
+  // Extension package uploaded as .vsix, with the themes chosen for conversion and the one shown in the details card
+  const [vsixPackage, setVsixPackage] = useState<VsixPackage | null>(null);
+  const [selectedVsixThemes, setSelectedVsixThemes] = useState<string[]>([]);
+  const [activeVsixTheme, setActiveVsixTheme] = useState<string | null>(null);
+  // Themes of an extension fetched by URL or identifier, and the label of the one that was loaded
+  const [remoteThemes, setRemoteThemes] = useState<{ label: string; uiTheme: string }[]>([]);
+  const [remoteTheme, setRemoteTheme] = useState<string>('');
+  // Themes found in several dropped files or a folder
+  const [batchThemes, setBatchThemes] = useState<BatchTheme[]>([]);
+  const [selectedBatchThemes, setSelectedBatchThemes] = useState<string[]>([]);
+  const [activeBatchTheme, setActiveBatchTheme] = useState<string | null>(null);
 
   // --- Theme Handling ---
   useEffect(() => {
@@ -71,12 +157,12 @@ function App() {
     setThemeUrl(newUrl);
     setUrlFetchSuccess(false);
     
-    // 在输入时就验证 URL
+    // 在输入时就验证 URL，也接受 publisher.extension 形式的扩展 ID
     try {
       const url = new URL(newUrl);
       setIsValidThemeUrl(url.protocol === 'http:' || url.protocol === 'https:');
     } catch {
-      setIsValidThemeUrl(false);
+      setIsValidThemeUrl(!!parseExtensionId(newUrl));
     }
   };
 
@@ -88,41 +174,118 @@ function App() {
     setParseError(null);
     setUrlFetchSuccess(false); // 清除时重置URL获取状态
     setIsValidThemeUrl(false);
+    setThemeFiles({});
+    setPendingTheme(null);
+    setReverseTheme(null);
+    setVsixPackage(null);
+    setSelectedVsixThemes([]);
+    setActiveVsixTheme(null);
+    setRemoteThemes([]);
+    setRemoteTheme('');
+    setBatchThemes([]);
+    setSelectedBatchThemes([]);
+    setActiveBatchTheme(null);
   }
 
+  // `webkitdirectory` is not part of React's input props
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  // --- Include Resolution ---
+  // Resolves "include" chains against the known files, asking for the next missing file if needed
+  const applyThemeJson = useCallback(async (json: ThemeJson, path: string, files: Record<string, string>) => {
+    let resolved = json;
+    if (hasThemeReferences(json)) {
+      try {
+        resolved = await resolveThemeIncludes(json, path, createMapLoader(files));
+      } catch (err) {
+        if (err instanceof MissingThemeFileError) {
+          setPendingTheme({ json, path, missing: err.path });
+          return;
+        }
+        throw err;
+      }
+    }
+    setPendingTheme(null);
+    let theme = parseVscodeTheme(resolved);
+    if (!json.name) {
+      const name = path.substring(path.lastIndexOf('/') + 1).replace(/\.[^.]+$/, '');
+      theme = { ...theme, name };
+    }
+    setParsedTheme(theme);
+  }, []);
+
+  const loadThemeFromFiles = useCallback(async (files: Record<string, string>) => {
+    const entry = findThemeEntry(files);
+    if (!entry) throw new Error(t('noThemeInFiles'));
+    setThemeFiles(files);
+    if (/\.tmTheme$/i.test(entry)) {
+      setParsedTheme(parseTmTheme(files[entry], entry.substring(entry.lastIndexOf('/') + 1).replace(/\.[^.]+$/, '')));
+      return;
+    }
+    await applyThemeJson(parseJsonc(files[entry]) as ThemeJson, entry, files);
+  }, [applyThemeJson, t]);
+
   // --- File Handling & Parsing ---
   const handleFileSelected = useCallback((file: File) => {
     clearAllInputs(); // Clear URL input and previous results
     setSelectedFile(file); // Set selected file *after* clearing
     setIsProcessing(true);
     setParseError(null); // Clear previous errors
+    if (/\.vsix$/i.test(file.name)) {
+      file.arrayBuffer()
+        .then(async buffer => {
+          const pkg = readVsix(new Uint8Array(buffer));
+          setVsixPackage(pkg);
+          setSelectedVsixThemes(pkg.themes.map(theme => theme.path));
+          setActiveVsixTheme(pkg.themes[0].path);
+          setParsedTheme(await loadVsixTheme(pkg, pkg.themes[0]));
+        })
+        .catch(err => {
+          console.error("VSIX error:", err);
+          setParseError(t('parsingError') + (err instanceof Error ? `: ${errorText(t, err)}` : ''));
+        })
+        .finally(() => setIsProcessing(false));
+      return;
+    }
+    if (/\.zip$/i.test(file.name)) {
+      file.arrayBuffer()
+        .then(buffer => loadThemeFromFiles(readZipTextFiles(new Uint8Array(buffer))))
+        .catch(err => {
+          console.error("Archive error:", err);
+          setParseError(t('parsingError') + (err instanceof Error ? `: ${errorText(t, err)}` : ''));
+        })
+        .finally(() => setIsProcessing(false));
+      return;
+    }
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const jsonString = e.target?.result as string;
         if (!jsonString) throw new Error('File content is empty');
-        setTimeout(() => { // Keep simulation
+        setTimeout(async () => { // Keep simulation
           try {
-            // Use jsonc-parser's parse function
-            const parseErrors: any[] = [];
-            const json = parse(jsonString, parseErrors, { allowTrailingComma: true });
-
-            if (parseErrors.length > 0) {
-              // Handle JSONC parsing errors more specifically if needed
-              const firstError = parseErrors[0];
-              throw new Error(`Invalid JSONC: ${firstError.error} at offset ${firstError.offset}`);
+            // Reverse conversion: .xccolortheme → VS Code theme
+            if (/\.xccolortheme$/i.test(file.name)) {
+              const vscodeTheme = emitVscodeTheme(parseXcodeTheme(jsonString, file.name.replace(/\.[^.]+$/, '')));
+              setReverseTheme(vscodeTheme);
+              setParsedTheme(parseVscodeTheme(vscodeTheme));
+              setIsProcessing(false);
+              return;
             }
-
-            let theme = parseVscodeTheme(json);
-            if (!json.name && file.name) {
-              const name = file.name.replace(/\.[^.]+$/, '');
-              theme = { ...theme, name };
+            if (/\.(tmTheme|plist)$/i.test(file.name)) {
+              setParsedTheme(parseTmTheme(jsonString, file.name.replace(/\.[^.]+$/, '')));
+              setIsProcessing(false);
+              return;
             }
-            setParsedTheme(theme);
+            // Parse JSONC (comments and trailing commas allowed)
+            const json = parseJsonc(jsonString) as ThemeJson;
+            await applyThemeJson(json, file.name, { [file.name]: jsonString });
             setIsProcessing(false);
           } catch (err) {
             console.error("Parsing error:", err);
-            setParseError(t('parsingError') + (err instanceof Error ? `: ${err.message}` : ''));
+            setParseError(t('parsingError') + (err instanceof Error ? `: ${errorText(t, err)}` : ''));
             setIsProcessing(false);
           }
         }, 500);
@@ -138,10 +301,131 @@ function App() {
       setIsProcessing(false);
     };
     reader.readAsText(file);
-  }, [t]); // Removed clearAllInputs from dependencies
+  }, [t, applyThemeJson, loadThemeFromFiles]); // Removed clearAllInputs from dependencies
+
+  // --- Batch Upload ---
+  // Lists every theme found in several files or a folder; the first convertible one is loaded into the details card
+  const showBatchThemes = useCallback((themes: BatchTheme[]) => {
+    if (themes.length === 0) throw new Error(t('noThemeInFiles'));
+    const ids = themes.filter(item => item.theme).map(item => item.id);
+    setBatchThemes(themes);
+    setSelectedBatchThemes(ids);
+    setActiveBatchTheme(ids[0] ?? null);
+    setParsedTheme(themes.find(item => item.theme)?.theme ?? null);
+  }, [t]);
+
+  const handleBatchFiles = useCallback(async (files: BatchFile[]) => {
+    clearAllInputs();
+    setIsProcessing(true);
+    try {
+      showBatchThemes(await loadBatchThemes(files));
+    } catch (err) {
+      console.error("Batch error:", err);
+      setParseError(t('parsingError') + (err instanceof Error ? `: ${errorText(t, err)}` : ''));
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [t, showBatchThemes]);
+
+  const handleBatchThemeActivated = useCallback((id: string) => {
+    const theme = batchThemes.find(item => item.id === id)?.theme;
+    if (!theme) return;
+    setParsedTheme(theme);
+    setActiveBatchTheme(id);
+  }, [batchThemes]);
+
+  // --- Folder Upload ---
+  const handleFolderSelected = useCallback(async (fileList: FileList) => {
+    const list = Array.from(fileList).filter(f => /\.(json|jsonc|tmTheme|plist)$/i.test(f.name));
+    clearAllInputs();
+    setIsProcessing(true);
+    try {
+      const files: Record<string, string> = {};
+      for (const f of list) {
+        files[f.webkitRelativePath || f.name] = await f.text();
+      }
+      if (findThemeEntries(files).length > 1) {
+        showBatchThemes(await parseThemeFiles(files));
+        return;
+      }
+      const entry = findThemeEntry(files);
+      setSelectedFile(list.find(f => (f.webkitRelativePath || f.name) === entry) || null);
+      await loadThemeFromFiles(files);
+    } catch (err) {
+      console.error("Folder error:", err);
+      setParseError(t('parsingError') + (err instanceof Error ? `: ${errorText(t, err)}` : ''));
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [t, loadThemeFromFiles, showBatchThemes]);
+
+  // --- VSIX Theme Selection ---
+  const handleVsixThemeActivated = useCallback(async (path: string) => {
+    const theme = vsixPackage?.themes.find(item => item.path === path);
+    if (!vsixPackage || !theme) return;
+    setIsProcessing(true);
+    setParseError(null);
+    try {
+      setParsedTheme(await loadVsixTheme(vsixPackage, theme));
+      setActiveVsixTheme(path);
+    } catch (err) {
+      console.error("VSIX theme error:", err);
+      setParseError(t('parsingError') + (err instanceof Error ? `: ${errorText(t, err)}` : ''));
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [vsixPackage, t]);
+
+  // --- Missing Referenced File ---
+  const handleMissingFileProvided = useCallback(async (file: File) => {
+    if (!pendingTheme) return;
+    setIsProcessing(true);
+    setParseError(null);
+    try {
+      const files = { ...themeFiles, [pendingTheme.missing]: await file.text() };
+      setThemeFiles(files);
+      await applyThemeJson(pendingTheme.json, pendingTheme.path, files);
+    } catch (err) {
+      console.error("Include error:", err);
+      setParseError(t('parsingError') + (err instanceof Error ? `: ${errorText(t, err)}` : ''));
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [pendingTheme, themeFiles, applyThemeJson, t]);
+
+  // --- VS Code Settings ---
+  // Reads a settings.json; its editor font replaces the current font selection
+  const handleSettingsSelected = useCallback(async (file: File) => {
+    setParseError(null);
+    try {
+      const settings = parseVscodeSettings(await file.text());
+      setVscodeSettings({ name: file.name, settings });
+      const settingsFont = fontFromSettings(settings);
+      if (settingsFont) setFont(settingsFont);
+    } catch (err) {
+      console.error("Settings error:", err);
+      setParseError(t('settingsLoadError') + (err instanceof Error ? `: ${errorText(t, err)}` : ''));
+    }
+  }, [t]);
+
+  // --- Base Xcode Theme ---
+  const handleBaseThemeSelected = useCallback(async (file: File) => {
+    setParseError(null);
+    try {
+      const plist = parseXcodeThemePlist(await file.text());
+      setBaseTheme({ name: file.name.replace(/\.xccolortheme$/i, ''), plist });
+      // A theme exported by vs2x brings back the color adjustments it was made with
+      const saved = transformsFromPlist(plist.VS2XTransforms);
+      if (saved) setTransforms(saved);
+    } catch (err) {
+      console.error("Base theme error:", err);
+      setParseError(t('baseThemeLoadError') + (err instanceof Error ? `: ${errorText(t, err)}` : ''));
+    }
+  }, [t]);
 
   // --- URL Fetching & Parsing ---
-  const handleFetchFromUrl = useCallback(async () => {
+  // `theme` selects a theme by label when the URL points to an extension with several themes
+  const handleFetchFromUrl = useCallback(async (theme?: string) => {
     if (!themeUrl || !isValidThemeUrl || isFetchingUrl || isProcessing) return;
 
     clearAllInputs();
@@ -156,13 +440,17 @@ function App() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url: themeUrl }),
+        body: JSON.stringify({ url: themeUrl, theme }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || `Request failed with status ${response.status}`);
+        // Structured error codes from the API are localized; the English message is the fallback
+        const message = data.code
+          ? t(`fetchErrors.${data.code}`, { ...data.details, defaultValue: data.error })
+          : data.error;
+        throw new Error(message || `Request failed with status ${response.status}`);
       }
 
       if (!data.themeJson) {
@@ -172,7 +460,7 @@ function App() {
       // Parse the JSON received from the backend
       // The backend now sends parsed JSON, no need to parse again here
       const json = data.themeJson; // Use the already parsed JSON
-      let theme = parseVscodeTheme(json);
+      let parsed = parseVscodeTheme(json);
 
       // Try to extract a name from the URL if not present in JSON
       if (!json.name) {
@@ -181,7 +469,7 @@ function App() {
           const filename = urlPath.substring(urlPath.lastIndexOf('/') + 1);
           if (filename) {
             const name = filename.replace(/\.[^.]+$/, ''); // Remove extension
-            theme = { ...theme, name };
+            parsed = { ...parsed, name };
           }
         } catch (e) {
           // Ignore errors in deriving name from URL
@@ -189,12 +477,14 @@ function App() {
         }
       }
 
-      setParsedTheme(theme);
+      setParsedTheme(parsed);
+      setRemoteThemes(Array.isArray(data.themes) ? data.themes : []);
+      setRemoteTheme(typeof data.theme === 'string' ? data.theme : '');
       setUrlFetchSuccess(true); // 设置成功状态
 
     } catch (err) {
       console.error("URL Fetch/Parse error:", err);
-      setParseError(t('fetchUrlError') + (err instanceof Error ? `: ${err.message}` : ''));
+      setParseError(t('fetchUrlError') + (err instanceof Error ? `: ${errorText(t, err)}` : ''));
       setUrlFetchSuccess(false); // 确保失败时重置状态
     } finally {
       setIsFetchingUrl(false);
@@ -212,39 +502,57 @@ function App() {
     setIsDragging(false);
   }, []);
 
-  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+  // A single file keeps the regular flow; several files or folders are listed as a batch
+  const handleDrop = useCallback(async (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     setIsDragging(false);
-    if (event.dataTransfer.files && event.dataTransfer.files[0]) {
-      const file = event.dataTransfer.files[0];
-      if (file.type === 'application/json' || file.name.endsWith('.json') || file.name.endsWith('.jsonc')) {
-        handleFileSelected(file); // Use the existing file handler
-      } else {
-        setParseError('Please drop a valid JSON theme file.'); // Consider translating this
-      }
+    let dropped: BatchFile[];
+    try {
+      dropped = await readDroppedFiles(event.dataTransfer);
+    } catch (err) {
+      console.error("Drop read error:", err);
+      setParseError(t('readDropError') + (err instanceof Error ? `: ${errorText(t, err)}` : ''));
+      return;
     }
-  }, [handleFileSelected]);
+    if (dropped.length === 0) {
+      setParseError(t('dropEmpty'));
+      return;
+    }
+    if (dropped.length > 1 || dropped.some(item => item.path.includes('/'))) {
+      handleBatchFiles(dropped);
+      return;
+    }
+    const file = dropped[0].file;
+    if (file.type === 'application/json' || /\.(json|jsonc|tmTheme|plist|zip|vsix|xccolortheme)$/i.test(file.name)) {
+      handleFileSelected(file); // Use the existing file handler
+    } else {
+      setParseError(t('unsupportedDropFile', { name: file.name }));
+    }
+  }, [handleFileSelected, handleBatchFiles, t]);
 
   // --- Conversion & Download ---
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    setTimeout(() => {
+      URL.revokeObjectURL(link.href);
+      document.body.removeChild(link);
+    }, 100);
+  };
+
   const handleConvert = () => {
-    if (!parsedTheme || isProcessing || isFetchingUrl) return; // Check both processing states
+    if (!effectiveTheme || isProcessing || isFetchingUrl) return; // Check both processing states
     setIsProcessing(true); // Use general processing for download generation
     try {
       setTimeout(() => { // Keep simulation
         try {
-          const xml = generateXcodeTheme(parsedTheme);
+          const xml = mergedTheme ? mergedTheme.xml : generateXcodeTheme(effectiveTheme, xcodeOptions);
           const blob = new Blob([xml], { type: 'application/xml;charset=utf-8' });
-          const filename = `${parsedTheme.name || 'theme'}.xccolortheme`;
-          const link = document.createElement('a');
-          link.href = URL.createObjectURL(blob);
-          link.download = filename;
-          document.body.appendChild(link);
-          link.click();
+          downloadBlob(blob, `${(baseTheme ? baseTheme.name : effectiveTheme.name) || 'theme'}.xccolortheme`);
           setIsProcessing(false);
-          setTimeout(() => {
-            URL.revokeObjectURL(link.href);
-            document.body.removeChild(link);
-          }, 100);
         } catch (error) {
           console.error("Conversion error:", error);
           setParseError('Failed to generate Xcode theme.');
@@ -258,6 +566,65 @@ function App() {
     }
   };
 
+  // Converts a theme outside the details card with the same settings.json, adjustments, options and base theme
+  const renderXcodeTheme = (theme: ParsedVscodeTheme) => {
+    const plist = convertToXcodeTheme(prepareTheme(theme), xcodeOptions).plist;
+    return serializePlist(baseTheme ? mergeXcodeTheme(baseTheme.plist, plist, mergeGroups).plist : plist);
+  };
+
+  // Converts several themes; a single result is downloaded directly, more as one zip with unique file names
+  const downloadXcodeThemes = (themes: ParsedVscodeTheme[], zipName: string) => {
+    const files: Record<string, string> = {};
+    const used = new Set<string>();
+    for (const theme of themes) {
+      files[`${uniqueFileName(theme.name, used)}.xccolortheme`] = renderXcodeTheme(theme);
+    }
+    const names = Object.keys(files);
+    if (names.length === 1) {
+      downloadBlob(new Blob([files[names[0]]], { type: 'application/xml;charset=utf-8' }), names[0]);
+      return;
+    }
+    downloadBlob(new Blob([createZip(files)], { type: 'application/zip' }), `${safeFileName(zipName)}.zip`);
+  };
+
+  // Converts the selected themes of the uploaded .vsix; several themes are downloaded as a single zip
+  const handleConvertVsix = async () => {
+    if (!vsixPackage || isProcessing || isFetchingUrl) return;
+    setIsProcessing(true);
+    setParseError(null);
+    try {
+      const themes: ParsedVscodeTheme[] = [];
+      for (const theme of vsixPackage.themes.filter(item => selectedVsixThemes.includes(item.path))) {
+        themes.push(await loadVsixTheme(vsixPackage, theme));
+      }
+      downloadXcodeThemes(themes, vsixPackage.displayName);
+    } catch (error) {
+      console.error("VSIX conversion error:", error);
+      setParseError(t('parsingError') + (error instanceof Error ? `: ${errorText(t, error)}` : ''));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Converts the selected themes of a batch upload
+  const handleConvertBatch = () => {
+    if (isProcessing || isFetchingUrl) return;
+    setParseError(null);
+    try {
+      const themes = batchThemes.flatMap(({ id, theme }) => (theme && selectedBatchThemes.includes(id) ? [theme] : []));
+      downloadXcodeThemes(themes, 'xcode-themes');
+    } catch (error) {
+      console.error("Batch conversion error:", error);
+      setParseError(t('parsingError') + (error instanceof Error ? `: ${errorText(t, error)}` : ''));
+    }
+  };
+
+  const handleDownloadVscodeTheme = () => {
+    if (!reverseTheme) return;
+    const blob = new Blob([JSON.stringify(reverseTheme, null, 2)], { type: 'application/json;charset=utf-8' });
+    downloadBlob(blob, `${reverseTheme.name || 'theme'}.json`);
+  };
+
   // --- Copy Path ---
   const copyXcodePath = () => {
     const path = '~/Library/Developer/Xcode/UserData/FontAndColorThemes/';
@@ -304,7 +671,16 @@ function App() {
   const ThemeInfoDisplay = ({ theme }: { theme: ParsedVscodeTheme }) => (
     <div className="mt-6 text-sm text-gray-300 space-y-1">
       <p><strong>{t('themeName')}</strong> <span className="font-mono break-all">{theme.name || t('notAvailable')}</span></p>
-      <p><strong>{t('themeType')}</strong> {theme.type}</p>
+      <p>
+        <strong>{t('themeType')}</strong> {t(`appearances.${theme.type}`)}
+        {theme.typeInferred && (
+          <span className="text-gray-400">
+            {' '}({theme.declaredType
+              ? t('appearanceMismatch', { declared: t(`appearances.${theme.declaredType}`) })
+              : t('appearanceInferred')})
+          </span>
+        )}
+      </p>
       <p><strong>{t('themeBgColor')}</strong> <span className="font-mono break-all">{theme.colors['editor.background'] || t('notAvailable')}</span></p>
       <p><strong>{t('themeFgColor')}</strong> <span className="font-mono break-all">{theme.colors['editor.foreground'] || t('notAvailable')}</span></p>
       <p><strong>{t('themeTokenCount')}</strong> {theme.tokenColors.length}</p>
@@ -316,6 +692,10 @@ function App() {
 
   // Determine if the main action button should be disabled
   const isActionButtonDisabled = !parsedTheme || isProcessing || isFetchingUrl;
+  // Themes selected from a .vsix are converted from the package instead of the details card
+  const isVsixBatch = !!vsixPackage && selectedVsixThemes.length > 0;
+  const isFileBatch = batchThemes.length > 0 && selectedBatchThemes.length > 0;
+  const batchCount = isFileBatch ? selectedBatchThemes.length : isVsixBatch ? selectedVsixThemes.length : 0;
   // Determine if inputs should be disabled
   const isInputDisabled = isProcessing || isFetchingUrl;
 
@@ -391,7 +771,7 @@ function App() {
                   <FiLink className={`absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 ${isValidThemeUrl ? 'text-green-400' : 'text-gray-400'}`} />
                   <input
                     id="url-input"
-                    type="url"
+                    type="text"
                     value={themeUrl}
                     onChange={handleThemeUrlChange}
                     placeholder={t('urlInputPlaceholder')}
@@ -400,7 +780,7 @@ function App() {
                   />
                 </div>
                 <button
-                  onClick={handleFetchFromUrl}
+                  onClick={() => handleFetchFromUrl()}
                   disabled={!themeUrl || !isValidThemeUrl || isInputDisabled || urlFetchSuccess}
                   className={`px-5 py-2.5 rounded-lg font-semibold transition-all duration-200 flex items-center justify-center space-x-2
                     ${!themeUrl || !isValidThemeUrl || isInputDisabled || urlFetchSuccess
@@ -424,6 +804,23 @@ function App() {
                   }
                 </button>
               </div>
+              {/* Themes contributed by the fetched extension */}
+              {remoteThemes.length > 1 && (
+                <div className="mt-3 flex items-center space-x-3 text-sm text-gray-300">
+                  <label htmlFor="remote-theme-select">{t('extensionThemeLabel')}</label>
+                  <select
+                    id="remote-theme-select"
+                    value={remoteTheme}
+                    onChange={(e) => handleFetchFromUrl(e.target.value)}
+                    disabled={isInputDisabled}
+                    className="flex-grow bg-gray-800/60 border border-gray-600 rounded-md py-1.5 px-3 text-gray-200"
+                  >
+                    {remoteThemes.map(item => (
+                      <option key={item.label} value={item.label}>{item.label} ({item.uiTheme})</option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
 
             {/* Divider */}
@@ -449,8 +846,14 @@ function App() {
               >
                 <input
                   type="file"
-                  accept=".json,.jsonc"
-                  onChange={(e) => e.target.files && handleFileSelected(e.target.files[0])}
+                  accept=".json,.jsonc,.tmTheme,.plist,.zip,.vsix,.xccolortheme"
+                  multiple
+                  onChange={(e) => {
+                    const files = e.target.files;
+                    if (!files || files.length === 0) return;
+                    if (files.length > 1) handleBatchFiles(Array.from(files).map(file => ({ path: file.name, file })));
+                    else handleFileSelected(files[0]);
+                  }}
                   // Add onClick handler to clear the value
                   onClick={(event) => {
                     // Reset the input value to allow selecting the same file again
@@ -481,6 +884,67 @@ function App() {
               </div>
             </div>
 
+            {/* Folder Upload */}
+            <div className="text-center text-sm text-gray-400">
+              <input
+                ref={folderInputRef}
+                type="file"
+                multiple
+                onChange={(e) => e.target.files && e.target.files.length > 0 && handleFolderSelected(e.target.files)}
+                onClick={(event) => { (event.target as HTMLInputElement).value = '' }}
+                className="hidden"
+                id="folder-upload"
+                disabled={isInputDisabled}
+              />
+              <label htmlFor="folder-upload" className={`underline hover:text-gray-200 ${isInputDisabled ? 'cursor-wait' : 'cursor-pointer'}`}>
+                {t('uploadFolderButton')}
+              </label>
+            </div>
+
+            {/* VSIX Themes */}
+            {vsixPackage && (
+              <VsixThemeList
+                pkg={vsixPackage}
+                selected={selectedVsixThemes}
+                active={activeVsixTheme}
+                disabled={isInputDisabled}
+                onSelectedChange={setSelectedVsixThemes}
+                onActivate={handleVsixThemeActivated}
+              />
+            )}
+
+            {/* Batch Themes */}
+            {batchThemes.length > 0 && (
+              <BatchThemeList
+                themes={batchThemes}
+                selected={selectedBatchThemes}
+                active={activeBatchTheme}
+                disabled={isInputDisabled}
+                onSelectedChange={setSelectedBatchThemes}
+                onActivate={handleBatchThemeActivated}
+              />
+            )}
+
+            {/* Missing Referenced File */}
+            {pendingTheme && (
+              <div className="p-4 rounded-lg bg-yellow-900/30 border border-yellow-700 text-yellow-200 text-sm space-y-3">
+                <p>{t('missingThemeFileDescription')}</p>
+                <p className="font-mono break-all">{pendingTheme.missing}</p>
+                <input
+                  type="file"
+                  accept=".json,.jsonc,.tmTheme,.plist"
+                  onChange={(e) => e.target.files && e.target.files[0] && handleMissingFileProvided(e.target.files[0])}
+                  onClick={(event) => { (event.target as HTMLInputElement).value = '' }}
+                  className="hidden"
+                  id="missing-file-upload"
+                  disabled={isInputDisabled}
+                />
+                <label htmlFor="missing-file-upload" className="inline-block px-4 py-2 rounded-md bg-yellow-800/60 hover:bg-yellow-700/60 cursor-pointer">
+                  {t('provideFileButton')}
+                </label>
+              </div>
+            )}
+
             {/* Parse Error Display */}
             {parseError && (
               <div className="mt-6 p-4 rounded-lg bg-red-900/30 border border-red-700 text-red-300 text-sm">
@@ -488,10 +952,152 @@ function App() {
               </div>
             )}
 
+            {/* Conversion Options */}
+            <label className="flex items-center justify-center space-x-2 text-sm text-gray-300 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={flattenAlpha}
+                onChange={(e) => setFlattenAlpha(e.target.checked)}
+                className="rounded border-gray-600 bg-gray-800"
+              />
+              <span>{t('flattenAlphaOption')}</span>
+            </label>
+            <div className="mt-3 flex flex-wrap items-center justify-center gap-x-4 gap-y-2 text-sm text-gray-300">
+              <label className="flex items-center space-x-2 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={ensureContrast}
+                  onChange={(e) => setEnsureContrast(e.target.checked)}
+                  className="rounded border-gray-600 bg-gray-800"
+                />
+                <span>{t('ensureContrastOption')}</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span>{t('minContrastLabel')}</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={21}
+                  step={0.5}
+                  value={minContrast}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (value >= 1 && value <= 21) setMinContrast(value);
+                  }}
+                  className="w-20 bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-gray-200"
+                />
+              </label>
+            </div>
+            <div className="mt-3 flex flex-wrap items-center justify-center gap-x-4 gap-y-2 text-sm text-gray-300">
+              <label className="flex items-center space-x-2">
+                <span>{t('fontLabel')}</span>
+                <select
+                  value={font.family}
+                  onChange={(e) => setFont({ ...font, family: e.target.value })}
+                  className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-gray-200"
+                >
+                  {!xcodeFontFamilies[font.family] && <option value={font.family}>{font.family}</option>}
+                  {Object.entries(xcodeFontFamilies).map(([family, { label }]) => (
+                    <option key={family} value={family}>{label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span>{t('fontSizeLabel')}</span>
+                <input
+                  type="number"
+                  min={6}
+                  max={72}
+                  step={0.5}
+                  value={font.size}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (value >= 6 && value <= 72) setFont({ ...font, size: value });
+                  }}
+                  className="w-20 bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-gray-200"
+                />
+              </label>
+            </div>
+            <div className="mt-3 flex flex-wrap items-center justify-center gap-x-3 gap-y-2 text-sm text-gray-400">
+              <input
+                type="file"
+                accept=".json,.jsonc"
+                onChange={(e) => e.target.files && e.target.files[0] && handleSettingsSelected(e.target.files[0])}
+                onClick={(event) => { (event.target as HTMLInputElement).value = '' }}
+                className="hidden"
+                id="settings-upload"
+                disabled={isInputDisabled}
+              />
+              <label htmlFor="settings-upload" className={`underline hover:text-gray-200 ${isInputDisabled ? 'cursor-wait' : 'cursor-pointer'}`}>
+                {t('loadSettingsButton')}
+              </label>
+              {vscodeSettings && (
+                <>
+                  <span className="font-mono text-xs break-all">{vscodeSettings.name}</span>
+                  <button onClick={() => setVscodeSettings(null)} className="underline hover:text-gray-200">
+                    {t('removeSettingsButton')}
+                  </button>
+                </>
+              )}
+            </div>
+            <p className="mt-1 text-center text-xs text-gray-500">{t('settingsDescription')}</p>
+
+            {/* Color Adjustments */}
+            <div className="mt-4">
+              <ThemeTransformControls transforms={transforms} disabled={isInputDisabled} onChange={setTransforms} />
+            </div>
+
+            {/* Base Xcode Theme */}
+            <div className="mt-3 flex flex-wrap items-center justify-center gap-x-3 gap-y-2 text-sm text-gray-400">
+              <input
+                type="file"
+                accept=".xccolortheme"
+                onChange={(e) => e.target.files && e.target.files[0] && handleBaseThemeSelected(e.target.files[0])}
+                onClick={(event) => { (event.target as HTMLInputElement).value = '' }}
+                className="hidden"
+                id="base-theme-upload"
+                disabled={isInputDisabled}
+              />
+              <label htmlFor="base-theme-upload" className={`underline hover:text-gray-200 ${isInputDisabled ? 'cursor-wait' : 'cursor-pointer'}`}>
+                {t('loadBaseThemeButton')}
+              </label>
+              {baseTheme && (
+                <>
+                  <span className="font-mono text-xs break-all">{baseTheme.name}.xccolortheme</span>
+                  <button onClick={() => setBaseTheme(null)} className="underline hover:text-gray-200">
+                    {t('removeBaseThemeButton')}
+                  </button>
+                </>
+              )}
+            </div>
+            {baseTheme && (
+              <div className="mt-2 flex flex-wrap items-center justify-center gap-x-4 gap-y-2 text-sm text-gray-300">
+                <span>{t('mergeGroupsLabel')}</span>
+                {xcodeMergeGroups.map(group => (
+                  <label key={group} className="flex items-center space-x-2 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={mergeGroups.includes(group)}
+                      onChange={(e) => setMergeGroups(e.target.checked
+                        ? xcodeMergeGroups.filter(item => item === group || mergeGroups.includes(item))
+                        : mergeGroups.filter(item => item !== group))}
+                      className="rounded border-gray-600 bg-gray-800"
+                    />
+                    <span>{t(`mergeGroups.${group}`)}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            {mergedTheme && batchCount === 0 && (
+              <div className="mt-4">
+                <MergeChangesView changes={mergedTheme.changes} />
+              </div>
+            )}
+
             {/* Convert Button */}
             <div className="mt-8 text-center">
               <button
-                onClick={handleConvert}
+                onClick={isFileBatch ? handleConvertBatch : isVsixBatch ? handleConvertVsix : handleConvert}
                 disabled={isActionButtonDisabled}
                 className={`px-20 py-4 rounded-lg text-lg font-semibold transition-all duration-200 flex items-center justify-center space-x-2 w-full sm:w-auto sm:inline-flex
                   ${!isActionButtonDisabled
@@ -501,15 +1107,36 @@ function App() {
               >
                 {/* Show loader if processing download, otherwise icon */}
                 {<FiDownloadCloud className="w-5 h-5"/>}
-                <span>{t('convertAndDownload')}</span>
+                <span>{batchCount > 1 ? t('convertSelectedAsZip', { count: batchCount }) : t('convertAndDownload')}</span>
               </button>
             </div>
 
+            {/* Reverse Conversion Download */}
+            {reverseTheme && (
+              <div className="text-center">
+                <button
+                  onClick={handleDownloadVscodeTheme}
+                  disabled={isInputDisabled}
+                  className={`px-8 py-3 rounded-lg font-semibold transition-all duration-200 inline-flex items-center justify-center space-x-2
+                    ${!isInputDisabled
+                      ? 'bg-blue-700 hover:bg-blue-500 text-white shadow-md hover:shadow-lg'
+                      : 'bg-gray-700/40 text-gray-400 cursor-not-allowed shadow-inner'}`
+                  }
+                >
+                  <FiDownloadCloud className="w-5 h-5"/>
+                  <span>{t('downloadVscodeTheme')}</span>
+                </button>
+              </div>
+            )}
+
             {/* Parsed Theme Info */}
             {parsedTheme && !isInputDisabled && ( // Show only when not busy
               <div className="mt-8 p-6 rounded-xl bg-gray-700/30">
                 <h4 className="font-bold mb-3 text-gray-100">{t('themeInfoTitle')}</h4>
-                <ThemeInfoDisplay theme={parsedTheme} />
+                <ThemeInfoDisplay theme={effectiveTheme || parsedTheme} />
+                {conversionReport && <ConversionReportView report={conversionReport} />}
+                <ThemePreview theme={effectiveTheme || parsedTheme} options={xcodeOptions} xml={mergedTheme?.xml} />
+                <MappingEditor theme={effectiveTheme || parsedTheme} options={xcodeOptions} onOverridesChange={setOverrides} />
               </div>
             )}
           </div>
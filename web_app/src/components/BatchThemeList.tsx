@@ -0,0 +1,77 @@
+import { useTranslation } from 'react-i18next';
+import { FiAlertTriangle, FiLayers } from 'react-icons/fi';
+import { BatchTheme } from '../utils/batchThemes';
+
+interface BatchThemeListProps {
+  themes: BatchTheme[];
+  /** Ids of the themes selected for conversion */
+  selected: string[];
+  /** Id of the theme currently loaded into the details card */
+  active: string | null;
+  disabled: boolean;
+  onSelectedChange: (selected: string[]) => void;
+  onActivate: (id: string) => void;
+}
+
+// Lists the themes found in dropped files and folders with their parse status
+function BatchThemeList({ themes, selected, active, disabled, onSelectedChange, onActivate }: BatchThemeListProps) {
+  const { t } = useTranslation();
+  const convertible = themes.filter(item => item.theme).map(item => item.id);
+  const failed = themes.length - convertible.length;
+  const allSelected = selected.length === convertible.length;
+
+  const toggle = (id: string) => {
+    onSelectedChange(selected.includes(id) ? selected.filter(item => item !== id) : [...selected, id]);
+  };
+
+  return (
+    <div className="p-4 rounded-lg bg-gray-800/40 border border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-gray-100">
+          <FiLayers className="w-5 h-5" />
+          <span className="font-semibold">{t('batchTitle', { count: themes.length })}</span>
+          {failed > 0 && <span className="text-xs text-red-300">{t('batchFailed', { count: failed })}</span>}
+        </div>
+        <button
+          onClick={() => onSelectedChange(allSelected ? [] : convertible)}
+          disabled={disabled || convertible.length === 0}
+          className="text-xs text-gray-400 hover:text-gray-200 underline"
+        >
+          {allSelected ? t('selectNone') : t('selectAll')}
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {themes.map(({ id, theme, error }) => (
+          <li
+            key={id}
+            className={`flex items-center space-x-3 px-2 py-1.5 rounded-md ${active === id ? 'bg-gray-700/60' : 'hover:bg-gray-700/30'}`}
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(id)}
+              onChange={() => toggle(id)}
+              disabled={disabled || !theme}
+              className="rounded border-gray-600 bg-gray-800"
+            />
+            <button
+              onClick={() => onActivate(id)}
+              disabled={disabled || !theme}
+              className="flex-grow min-w-0 text-left"
+              title={id}
+            >
+              <span className="block text-sm text-gray-200 truncate">{theme ? theme.name : id}</span>
+              {theme
+                ? <span className="block text-xs font-mono text-gray-500 truncate">{id}</span>
+                : <span className="block text-xs text-red-300 break-all">{error}</span>}
+            </button>
+            {theme
+              ? <span className="text-xs font-mono text-gray-400">{t(`appearances.${theme.type}`)}</span>
+              : <FiAlertTriangle className="w-4 h-4 text-red-300 flex-shrink-0" />}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default BatchThemeList;
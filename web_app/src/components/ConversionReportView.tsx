@@ -0,0 +1,90 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiAlertTriangle, FiClipboard } from 'react-icons/fi';
+import { ConversionReport, hasConversionProblems } from '../utils/conversionReport';
+
+interface ConversionReportViewProps {
+  report: ConversionReport;
+}
+
+// One titled list of the report; hidden when empty
+function ReportSection({ title, items, warning }: { title: string; items: React.ReactNode[]; warning?: boolean }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <div className={`text-xs font-semibold mb-1 ${warning ? 'text-yellow-300' : 'text-gray-300'}`}>
+        {title} ({items.length})
+      </div>
+      <ul className="space-y-0.5 text-xs font-mono text-gray-400 break-all">
+        {items.map((item, index) => <li key={index}>{item}</li>)}
+      </ul>
+    </div>
+  );
+}
+
+// Shows where the generated keys came from and what could not be converted
+function ConversionReportView({ report }: ConversionReportViewProps) {
+  const { t } = useTranslation();
+  const problems = report.invalidColors.length + report.droppedTokenRules.length
+    + report.droppedSemanticColors.length + report.lowContrast.length + report.problems.length;
+
+  return (
+    <details className="mt-6 rounded-lg bg-gray-800/40 border border-gray-700">
+      <summary className="cursor-pointer select-none px-4 py-3 flex items-center space-x-2 font-bold text-gray-100">
+        {hasConversionProblems(report) ? <FiAlertTriangle className="w-4 h-4 text-yellow-300" /> : <FiClipboard className="w-4 h-4" />}
+        <span>{t('reportTitle')}</span>
+        <span className="text-xs font-normal text-gray-400">
+          {t('reportSummary', { fallbacks: report.fallbacks.length, problems })}
+        </span>
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <ReportSection
+          title={t('reportProblems')}
+          warning
+          items={report.problems}
+        />
+        <ReportSection
+          title={t('reportLowContrast')}
+          warning
+          items={report.lowContrast.map(({ key, against, ratio }) => `${key} / ${against}: ${ratio.toFixed(2)}:1`)}
+        />
+        <ReportSection
+          title={t('reportContrastFixes')}
+          items={report.contrastFixes.map(({ key, ratio, from, to }) => `${key}: ${ratio.toFixed(2)}:1, ${from} → ${to}`)}
+        />
+        <ReportSection
+          title={t('reportInvalidColors')}
+          warning
+          items={report.invalidColors.map(({ path, value }) => `${path}: ${value}`)}
+        />
+        <ReportSection
+          title={t('reportDroppedTokenRules')}
+          warning
+          items={report.droppedTokenRules.map(({ index, reason }) => `tokenColors[${index}]: ${reason}`)}
+        />
+        <ReportSection
+          title={t('reportDroppedSemanticColors')}
+          warning
+          items={report.droppedSemanticColors.map(({ selector, reason }) => `${selector}: ${reason}`)}
+        />
+        <ReportSection
+          title={t('reportFallbacks')}
+          items={report.fallbacks.map(({ key, source }) =>
+            `${key} ← ${source.type === 'fallback' ? source.key : t('reportXcodeDefault')}`)}
+        />
+        <ReportSection
+          title={t('reportInferred')}
+          items={report.inferred.map(({ key, via, from }) => `${key} ≈ ${from} (${t(`inferredVia.${via}`)})`)}
+        />
+        <ReportSection title={t('reportMissingKeys')} items={report.missingKeys} />
+        <ReportSection
+          title={t('reportUnusedTokenRules')}
+          items={report.unusedTokenRules.map(({ index, name, scope }) => `tokenColors[${index}]${name ? ` ${name}` : ''}: ${scope}`)}
+        />
+        <ReportSection title={t('reportUnusedSemanticColors')} items={report.unusedSemanticColors} />
+      </div>
+    </details>
+  );
+}
+
+export default ConversionReportView;
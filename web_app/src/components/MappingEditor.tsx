@@ -0,0 +1,222 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiDownload, FiRotateCcw, FiSliders, FiUpload } from 'react-icons/fi';
+import { ParsedVscodeTheme } from '../utils/vscodeThemeParser';
+import {
+  overrideSourceType,
+  traceXcodeTheme,
+  xcodeColorKeys,
+  XcodeKeySource,
+  XcodeOverride,
+  XcodeOverrides,
+  XcodeThemeOptions,
+  xcodeSyntaxKeys,
+} from '../utils/xcodeThemeGenerator';
+import { compileTokenRules } from '../utils/scopeSelector';
+import { parseXcodeColor, toHex } from '../utils/color';
+import { parseMappingPreset, serializeMappingPreset } from '../utils/mappingPreset';
+import { safeFileName } from '../utils/fileNames';
+
+interface MappingEditorProps {
+  theme: ParsedVscodeTheme;
+  /** Generation options, including the current overrides */
+  options: XcodeThemeOptions;
+  onOverridesChange: (overrides: XcodeOverrides) => void;
+}
+
+// Lists every Xcode color key with the source it was taken from, and lets the user override it
+function MappingEditor({ theme, options, onOverridesChange }: MappingEditorProps) {
+  const { t } = useTranslation();
+  const [filter, setFilter] = useState('');
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const presetInputRef = useRef<HTMLInputElement>(null);
+  const overrides = useMemo(() => options.overrides || {}, [options.overrides]);
+
+  const { plist, sources } = useMemo(() => traceXcodeTheme(theme, options), [theme, options]);
+  const syntaxColors = plist.DVTSourceTextSyntaxColors as Record<string, string>;
+
+  // Suggestions for the source inputs
+  const colorKeys = useMemo(() => Object.keys(theme.colors).sort(), [theme]);
+  const scopes = useMemo(() => {
+    const texts = compileTokenRules(theme.tokenColors).flatMap(rule => rule.selectors.map(selector => selector.text));
+    return [...new Set(texts)].sort();
+  }, [theme]);
+
+  const setOverride = (key: string, patch: XcodeOverride) => {
+    const next: XcodeOverrides = { ...overrides };
+    const merged = { ...overrides[key], ...patch };
+    if (!merged.color) delete merged.color;
+    if (!merged.source) delete merged.source;
+    if (merged.color || merged.source) next[key] = merged;
+    else delete next[key];
+    onOverridesChange(next);
+  };
+
+  const resetOverride = (key: string) => {
+    const next = { ...overrides };
+    delete next[key];
+    onOverridesChange(next);
+  };
+
+  const describeSource = (source: XcodeKeySource | undefined): string => {
+    if (!source) return t('mappingSourceUnset');
+    const alpha = 'alpha' in source && source.alpha !== undefined ? ` × ${source.alpha}` : '';
+    switch (source.type) {
+      case 'color': return `${source.key}${alpha}`;
+      case 'reference': return `→ ${source.key}${alpha}`;
+      case 'token': return source.name ? `${source.selector} (${source.name})` : source.selector;
+      case 'semantic': return t('mappingSourceSemantic', { selector: source.selector });
+      case 'fallback': return t('mappingSourceFallback', { key: source.key });
+      case 'inferred': return t('mappingSourceInferred', { from: source.from, via: t(`inferredVia.${source.via}`) });
+      case 'default': return t('mappingSourceDefault');
+      case 'override': return t('mappingSourceOverride');
+    }
+  };
+
+  const handleSavePreset = () => {
+    const blob = new Blob([serializeMappingPreset(overrides)], { type: 'application/json;charset=utf-8' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${safeFileName(theme.name || 'theme')}.vs2x-preset.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handlePresetSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const problems: string[] = [];
+      onOverridesChange(parseMappingPreset(await file.text(), problems));
+      setPresetError(problems.length > 0 ? t('presetIgnoredEntries', { message: problems.join('; ') }) : null);
+    } catch (error: unknown) {
+      setPresetError(t('presetLoadError', { message: error instanceof Error ? error.message : String(error) }));
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const renderRow = (key: string, value: string | undefined) => {
+    if (query && !key.toLowerCase().includes(query)) return null;
+    const override = overrides[key];
+    const color = parseXcodeColor(value);
+    const sourceType = overrideSourceType(key);
+    return (
+      <tr key={key} className={`border-t border-gray-700/60 ${override ? 'bg-blue-900/20' : ''}`}>
+        <td className="py-1.5 pr-2 font-mono text-xs text-gray-200 break-all">{key.replace(/^xcode\.syntax\./, '')}</td>
+        <td className="py-1.5 pr-2">
+          <span
+            className="inline-block w-5 h-5 rounded border border-gray-600 align-middle"
+            style={{ backgroundColor: color ? toHex(color) : 'transparent' }}
+            title={color ? toHex(color) : t('mappingSourceUnset')}
+          />
+        </td>
+        <td className="py-1.5 pr-2 text-xs text-gray-400 break-all" title={sources[key]?.type === 'token' ? sources[key].scope : undefined}>
+          {describeSource(sources[key])}
+        </td>
+        <td className="py-1.5 pr-2">
+          <input
+            type="text"
+            list={sourceType === 'scope' ? 'mapping-scopes' : 'mapping-color-keys'}
+            value={override?.source || ''}
+            onChange={e => setOverride(key, { source: e.target.value })}
+            placeholder={sourceType === 'scope' ? t('mappingScopePlaceholder') : t('mappingColorKeyPlaceholder')}
+            className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs font-mono text-gray-200"
+          />
+        </td>
+        <td className="py-1.5 pr-2">
+          <div className="flex items-center space-x-1">
+            <input
+              type="color"
+              value={/^#[0-9a-f]{6}$/i.test(override?.color || '') ? override?.color : color ? toHex({ ...color, a: 1 }) : '#000000'}
+              onChange={e => setOverride(key, { color: e.target.value })}
+              className="w-7 h-7 bg-transparent cursor-pointer"
+              aria-label={t('mappingColorPicker')}
+            />
+            <input
+              type="text"
+              value={override?.color || ''}
+              onChange={e => setOverride(key, { color: e.target.value })}
+              placeholder="#RRGGBB"
+              className="w-24 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs font-mono text-gray-200"
+            />
+          </div>
+        </td>
+        <td className="py-1.5 text-right">
+          {override && (
+            <button onClick={() => resetOverride(key)} title={t('mappingReset')} className="p-1 text-gray-400 hover:text-gray-200">
+              <FiRotateCcw className="w-4 h-4" />
+            </button>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  const overrideCount = Object.keys(overrides).length;
+
+  return (
+    <details className="mt-8 rounded-lg bg-gray-800/40 border border-gray-700">
+      <summary className="cursor-pointer select-none px-4 py-3 flex items-center space-x-2 font-bold text-gray-100">
+        <FiSliders className="w-4 h-4" />
+        <span>{t('mappingEditorTitle')}</span>
+        {overrideCount > 0 && <span className="text-xs font-normal text-blue-300">{t('mappingOverrideCount', { count: overrideCount })}</span>}
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <p className="text-xs text-gray-400">{t('mappingEditorDescription')}</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder={t('mappingFilterPlaceholder')}
+            className="flex-grow bg-gray-800 border border-gray-600 rounded-md px-3 py-1.5 text-sm text-gray-200"
+          />
+          <button onClick={handleSavePreset} disabled={overrideCount === 0} className="flex items-center space-x-1 px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-sm text-gray-200">
+            <FiDownload className="w-4 h-4" />
+            <span>{t('savePreset')}</span>
+          </button>
+          <button onClick={() => presetInputRef.current?.click()} className="flex items-center space-x-1 px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 text-sm text-gray-200">
+            <FiUpload className="w-4 h-4" />
+            <span>{t('loadPreset')}</span>
+          </button>
+          <button onClick={() => onOverridesChange({})} disabled={overrideCount === 0} className="px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-sm text-gray-200">
+            {t('mappingResetAll')}
+          </button>
+          <input ref={presetInputRef} type="file" accept=".json,application/json" onChange={handlePresetSelected} className="hidden" />
+        </div>
+        {presetError && <p className="text-sm text-red-400">{presetError}</p>}
+        <datalist id="mapping-scopes">
+          {scopes.map(scope => <option key={scope} value={scope} />)}
+        </datalist>
+        <datalist id="mapping-color-keys">
+          {colorKeys.map(key => <option key={key} value={key} />)}
+        </datalist>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-xs uppercase tracking-wide text-gray-400">
+                <th className="pb-2 pr-2 font-semibold">{t('mappingColumnKey')}</th>
+                <th className="pb-2 pr-2" />
+                <th className="pb-2 pr-2 font-semibold">{t('mappingColumnSource')}</th>
+                <th className="pb-2 pr-2 font-semibold">{t('mappingColumnOverrideSource')}</th>
+                <th className="pb-2 pr-2 font-semibold">{t('mappingColumnOverrideColor')}</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody>
+              <tr><td colSpan={6} className="pt-3 pb-1 text-xs font-semibold text-gray-300">{t('mappingGroupSyntax')}</td></tr>
+              {xcodeSyntaxKeys.map(key => renderRow(key, syntaxColors[key]))}
+              <tr><td colSpan={6} className="pt-3 pb-1 text-xs font-semibold text-gray-300">{t('mappingGroupEditor')}</td></tr>
+              {xcodeColorKeys.map(key => renderRow(key, plist[key] as string | undefined))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+export default MappingEditor;
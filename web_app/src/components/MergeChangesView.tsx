@@ -0,0 +1,53 @@
+import { useTranslation } from 'react-i18next';
+import { FiGitMerge } from 'react-icons/fi';
+import { parseXcodeColor, toHex } from '../utils/color';
+import { XcodeThemeChange, xcodeMergeGroups } from '../utils/xcodeThemeMerge';
+
+interface MergeChangesViewProps {
+  changes: XcodeThemeChange[];
+}
+
+// Small color chip for Xcode color strings; font values are shown as text only
+function Swatch({ value }: { value?: string }) {
+  const color = parseXcodeColor(value);
+  if (!color) return null;
+  return <span className="inline-block w-3 h-3 rounded-sm border border-gray-600 align-middle mr-1" style={{ backgroundColor: toHex(color) }} />;
+}
+
+// Lists the keys of the base .xccolortheme that the download will change, grouped like the merge options
+function MergeChangesView({ changes }: MergeChangesViewProps) {
+  const { t } = useTranslation();
+
+  return (
+    <details open className="rounded-lg bg-gray-800/40 border border-gray-700 text-left">
+      <summary className="cursor-pointer select-none px-4 py-3 flex items-center space-x-2 font-bold text-gray-100">
+        <FiGitMerge className="w-4 h-4" />
+        <span>{t('mergeChangesTitle')}</span>
+        <span className="text-xs font-normal text-gray-400">{t('mergeChangesSummary', { count: changes.length })}</span>
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        {changes.length === 0 && <p className="text-xs text-gray-400">{t('mergeNoChanges')}</p>}
+        {xcodeMergeGroups.map(group => {
+          const items = changes.filter(change => change.group === group);
+          if (items.length === 0) return null;
+          return (
+            <div key={group}>
+              <div className="text-xs font-semibold mb-1 text-gray-300">{t(`mergeGroups.${group}`)} ({items.length})</div>
+              <ul className="space-y-0.5 text-xs font-mono text-gray-400 break-all">
+                {items.map(({ key, from, to }) => (
+                  <li key={key}>
+                    {key}: {from === undefined
+                      ? <span className="text-green-300">{t('mergeAdded')}</span>
+                      : <><Swatch value={from} />{from}</>} → <Swatch value={to} />{to}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+}
+
+export default MergeChangesView;
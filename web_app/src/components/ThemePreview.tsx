@@ -0,0 +1,224 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ParsedVscodeTheme } from '../utils/vscodeThemeParser';
+import { generateXcodeTheme, XcodeThemeOptions } from '../utils/xcodeThemeGenerator';
+import { parseXcodeTheme } from '../utils/xcodeThemeParser';
+import { compileTokenRules, resolveScopeStyle, toScopeStack } from '../utils/scopeSelector';
+import { parseColor, RGBA, toHex } from '../utils/color';
+import { defaultXcodeFont, parseFontStyle, ParsedXcodeFont, xcodeFontFamilies } from '../utils/xcodeFonts';
+import { PreviewLanguage, previewSamples, PreviewToken, tokenizePreview } from '../utils/previewTokenizer';
+
+interface ThemePreviewProps {
+  theme: ParsedVscodeTheme;
+  /** The same options used for the download, so the preview shows exactly what will be written */
+  options: XcodeThemeOptions;
+  /** Xcode theme to show instead of generating one, e.g. the result of merging into a base theme */
+  xml?: string;
+}
+
+// How one token is drawn in a pane
+interface TokenStyle {
+  color?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  /** Shown on hover: the Xcode key or the TextMate scope */
+  title: string;
+}
+
+interface PaneColors {
+  background?: string;
+  foreground?: string;
+  currentLine?: string;
+  selection?: string;
+  cursor?: string;
+}
+
+const languages: Array<[PreviewLanguage, string]> = [['swift', 'Swift'], ['objc', 'Objective-C']];
+
+// PostScript family → CSS font stack, falling back to the system monospace font
+const fontStack = (family = defaultXcodeFont.family) => (family === 'SFMono'
+  ? '"SF Mono", SFMono-Regular, ui-monospace, Menlo, monospace'
+  : `"${xcodeFontFamilies[family]?.label || family}", ui-monospace, Menlo, monospace`);
+const vscodeFontStack = 'Menlo, Monaco, "Courier New", monospace';
+
+const cssColor = (color: RGBA | undefined) => (color ? toHex(color) : undefined);
+const cssThemeColor = (value: string | undefined) => {
+  const color = parseColor(value);
+  return color ? toHex(color) : undefined;
+};
+
+function CodePane({ title, lines, styleOf, colors, fontFamily, fontSize, lineHeight, currentLine, selection }: {
+  title: string;
+  lines: PreviewToken[][];
+  styleOf: (token: PreviewToken) => TokenStyle;
+  colors: PaneColors;
+  fontFamily: string;
+  fontSize: number;
+  lineHeight: number;
+  currentLine: number;
+  selection: [number, number, number];
+}) {
+  const [selectionLine, selectionStart, selectionEnd] = selection;
+
+  const renderLine = (tokens: PreviewToken[], lineIndex: number) => {
+    const parts: React.ReactNode[] = [];
+    let column = 0;
+    tokens.forEach((token, tokenIndex) => {
+      const style = styleOf(token);
+      const css: React.CSSProperties = {
+        color: style.color,
+        fontWeight: style.bold ? 'bold' : undefined,
+        fontStyle: style.italic ? 'italic' : undefined,
+        textDecoration: style.underline ? 'underline' : undefined,
+      };
+      // Split the token where the selection starts and ends
+      const cuts = [0, token.text.length];
+      if (lineIndex === selectionLine) {
+        for (const edge of [selectionStart - column, selectionEnd - column]) {
+          if (edge > 0 && edge < token.text.length) cuts.splice(cuts.length - 1, 0, edge);
+        }
+      }
+      cuts.sort((a, b) => a - b);
+      for (let i = 0; i < cuts.length - 1; i++) {
+        const start = column + cuts[i];
+        const selected = lineIndex === selectionLine && start >= selectionStart && start < selectionEnd;
+        parts.push(
+          <span key={`${tokenIndex}-${i}`} title={style.title} style={selected ? { ...css, backgroundColor: colors.selection } : css}>
+            {token.text.slice(cuts[i], cuts[i + 1])}
+          </span>
+        );
+      }
+      column += token.text.length;
+    });
+    if (lineIndex === currentLine) {
+      parts.push(<span key="cursor" style={{ borderLeft: `2px solid ${colors.cursor}`, marginLeft: 1 }} />);
+    }
+    return parts;
+  };
+
+  return (
+    <div className="min-w-0">
+      <div className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-2">{title}</div>
+      <pre
+        className="rounded-lg py-3 overflow-x-auto border border-gray-700"
+        style={{ backgroundColor: colors.background, color: colors.foreground, fontFamily, fontSize, lineHeight }}
+      >
+        {lines.map((tokens, index) => (
+          <div
+            key={index}
+            className="px-3 whitespace-pre"
+            style={index === currentLine ? { backgroundColor: colors.currentLine } : undefined}
+          >
+            {tokens.length > 0 ? renderLine(tokens, index) : ' '}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+// Renders sample Swift/Objective-C code with the generated Xcode theme next to the original VS Code colors
+function ThemePreview({ theme, options, xml }: ThemePreviewProps) {
+  const { t } = useTranslation();
+  const [language, setLanguage] = useState<PreviewLanguage>('swift');
+
+  // Parse the generated XML back so the preview uses the exact values that will be downloaded
+  const xcode = useMemo(() => {
+    try {
+      return parseXcodeTheme(xml ?? generateXcodeTheme(theme, options), theme.name);
+    } catch (error) {
+      console.error('Preview generation error:', error);
+      return null;
+    }
+  }, [theme, options, xml]);
+  const rules = useMemo(() => compileTokenRules(theme.tokenColors), [theme]);
+  const sample = previewSamples[language];
+  const lines = useMemo(() => tokenizePreview(sample.code, language), [sample, language]);
+
+  if (!xcode) return null;
+
+  const plainColor = xcode.syntaxColors['xcode.syntax.plain'];
+  const plainFont: ParsedXcodeFont | undefined = xcode.syntaxFonts['xcode.syntax.plain'];
+  const fontSize = plainFont?.size || 12;
+  const lineSpacing = typeof xcode.other.DVTLineSpacing === 'number' ? xcode.other.DVTLineSpacing : 1;
+
+  // Keys the theme does not define are drawn with the plain text color and font, as Xcode does
+  const xcodeStyle = (token: PreviewToken): TokenStyle => {
+    const font = xcode.syntaxFonts[token.key] || plainFont;
+    return {
+      color: cssColor(xcode.syntaxColors[token.key] || plainColor),
+      bold: font?.bold,
+      italic: font?.italic,
+      title: token.key,
+    };
+  };
+
+  const vscodeStyle = (token: PreviewToken): TokenStyle => {
+    const { foreground, fontStyle } = resolveScopeStyle(rules, toScopeStack(token.scope));
+    const style = parseFontStyle(fontStyle?.rule.settings.fontStyle);
+    return {
+      color: cssThemeColor(foreground?.rule.settings.foreground),
+      ...style,
+      title: token.scope,
+    };
+  };
+
+  return (
+    <div className="mt-8 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-bold text-gray-100">{t('previewTitle')}</h4>
+        <div className="flex rounded-md border border-gray-600 overflow-hidden text-sm">
+          {languages.map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setLanguage(value)}
+              className={`px-3 py-1 ${language === value ? 'bg-gray-600 text-white' : 'bg-gray-800/60 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <CodePane
+          title={t('previewXcode')}
+          lines={lines}
+          styleOf={xcodeStyle}
+          colors={{
+            background: cssColor(xcode.colors.DVTSourceTextBackground),
+            foreground: cssColor(plainColor),
+            currentLine: cssColor(xcode.colors.DVTSourceTextCurrentLineHighlightColor),
+            selection: cssColor(xcode.colors.DVTSourceTextSelectionColor),
+            cursor: cssColor(xcode.colors.DVTSourceTextInsertionPointColor),
+          }}
+          fontFamily={fontStack(plainFont?.family)}
+          fontSize={fontSize}
+          lineHeight={1.2 * lineSpacing}
+          currentLine={sample.currentLine}
+          selection={sample.selection}
+        />
+        <CodePane
+          title={t('previewVscode')}
+          lines={lines}
+          styleOf={vscodeStyle}
+          colors={{
+            background: cssThemeColor(theme.colors['editor.background']),
+            foreground: cssThemeColor(theme.colors['editor.foreground'] || theme.colors['foreground']),
+            currentLine: cssThemeColor(theme.colors['editor.lineHighlightBackground']),
+            selection: cssThemeColor(theme.colors['editor.selectionBackground']),
+            cursor: cssThemeColor(theme.colors['editorCursor.foreground']),
+          }}
+          fontFamily={vscodeFontStack}
+          fontSize={fontSize}
+          lineHeight={1.2 * lineSpacing}
+          currentLine={sample.currentLine}
+          selection={sample.selection}
+        />
+      </div>
+      <p className="text-xs text-gray-400">{t('previewHint')}</p>
+    </div>
+  );
+}
+
+export default ThemePreview;
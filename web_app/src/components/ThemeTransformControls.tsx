@@ -0,0 +1,95 @@
+import { useTranslation } from 'react-i18next';
+import { FiSliders } from 'react-icons/fi';
+import { parseColor, toHex } from '../utils/color';
+import { isIdentityTransforms, ThemeTransforms, themeTransformRanges } from '../utils/themeTransforms';
+
+interface ThemeTransformControlsProps {
+  transforms: ThemeTransforms;
+  disabled: boolean;
+  onChange: (transforms: ThemeTransforms) => void;
+}
+
+const sliders = Object.keys(themeTransformRanges) as (keyof typeof themeTransformRanges)[];
+
+// Whole-theme color adjustments applied before the mapping; every change updates the preview
+function ThemeTransformControls({ transforms, disabled, onChange }: ThemeTransformControlsProps) {
+  const { t } = useTranslation();
+  const background = parseColor(transforms.background);
+
+  // Zero and empty values are dropped so an untouched control leaves no trace in the export
+  const update = (changes: ThemeTransforms) => {
+    const next: ThemeTransforms = { ...transforms, ...changes };
+    for (const key of Object.keys(next) as (keyof ThemeTransforms)[]) {
+      if (next[key] === undefined || next[key] === 0) delete next[key];
+    }
+    onChange(next);
+  };
+
+  return (
+    <details className="rounded-lg bg-gray-800/40 border border-gray-700 text-left">
+      <summary className="cursor-pointer select-none px-4 py-3 flex items-center space-x-2 font-bold text-gray-100">
+        <FiSliders className="w-4 h-4" />
+        <span>{t('transformsTitle')}</span>
+      </summary>
+      <div className="px-4 pb-4 space-y-3 text-sm text-gray-300">
+        {sliders.map(key => {
+          const [min, max] = themeTransformRanges[key];
+          return (
+            <label key={key} className="flex items-center space-x-3">
+              <span className="w-28 flex-shrink-0">{t(`transforms.${key}`)}</span>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={1}
+                value={transforms[key] ?? 0}
+                onChange={(e) => update({ [key]: Number(e.target.value) })}
+                disabled={disabled}
+                className="flex-grow accent-blue-500"
+              />
+              <span className="w-12 text-right font-mono text-xs text-gray-400">{transforms[key] ?? 0}{key === 'hueRotate' ? '°' : ''}</span>
+            </label>
+          );
+        })}
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <label className="flex items-center space-x-2">
+            <span>{t('transforms.background')}</span>
+            <input
+              type="color"
+              value={background ? toHex({ ...background, a: 1 }) : '#000000'}
+              onChange={(e) => update({ background: e.target.value })}
+              disabled={disabled}
+              className="w-8 h-6 bg-transparent border border-gray-600 rounded"
+            />
+            {transforms.background
+              ? <button onClick={() => update({ background: undefined })} className="underline text-gray-400 hover:text-gray-200">{t('transforms.keepBackground')}</button>
+              : <span className="text-xs text-gray-500">{t('transforms.backgroundUnchanged')}</span>}
+          </label>
+          <label className="flex items-center space-x-2">
+            <span>{t('transforms.invert')}</span>
+            <select
+              value={transforms.invert ?? ''}
+              onChange={(e) => update({ invert: e.target.value === 'light' || e.target.value === 'dark' ? e.target.value : undefined })}
+              disabled={disabled}
+              className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-gray-200"
+            >
+              <option value="">{t('transforms.invertNone')}</option>
+              <option value="light">{t('transforms.invertLight')}</option>
+              <option value="dark">{t('transforms.invertDark')}</option>
+            </select>
+          </label>
+          <button
+            onClick={() => onChange({})}
+            disabled={disabled || isIdentityTransforms(transforms)}
+            className="ml-auto underline text-gray-400 hover:text-gray-200 disabled:opacity-50 disabled:no-underline"
+          >
+            {t('transforms.reset')}
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">{t('transformsDescription')}</p>
+      </div>
+    </details>
+  );
+}
+
+export default ThemeTransformControls;
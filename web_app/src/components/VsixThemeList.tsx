@@ -0,0 +1,70 @@
+import { useTranslation } from 'react-i18next';
+import { FiPackage } from 'react-icons/fi';
+import { VsixPackage } from '../utils/vsixPackage';
+
+interface VsixThemeListProps {
+  pkg: VsixPackage;
+  /** Paths of the themes selected for conversion */
+  selected: string[];
+  /** Path of the theme currently loaded into the details card */
+  active: string | null;
+  disabled: boolean;
+  onSelectedChange: (selected: string[]) => void;
+  onActivate: (path: string) => void;
+}
+
+// Lists the color themes contributed by a .vsix package
+function VsixThemeList({ pkg, selected, active, disabled, onSelectedChange, onActivate }: VsixThemeListProps) {
+  const { t } = useTranslation();
+  const allSelected = selected.length === pkg.themes.length;
+
+  const toggle = (path: string) => {
+    onSelectedChange(selected.includes(path) ? selected.filter(p => p !== path) : [...selected, path]);
+  };
+
+  return (
+    <div className="p-4 rounded-lg bg-gray-800/40 border border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-gray-100">
+          <FiPackage className="w-5 h-5" />
+          <span className="font-semibold">{pkg.displayName}</span>
+          {pkg.version && <span className="text-xs text-gray-400 font-mono">v{pkg.version}</span>}
+        </div>
+        <button
+          onClick={() => onSelectedChange(allSelected ? [] : pkg.themes.map(theme => theme.path))}
+          disabled={disabled}
+          className="text-xs text-gray-400 hover:text-gray-200 underline"
+        >
+          {allSelected ? t('selectNone') : t('selectAll')}
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {pkg.themes.map(theme => (
+          <li
+            key={theme.path}
+            className={`flex items-center space-x-3 px-2 py-1.5 rounded-md ${active === theme.path ? 'bg-gray-700/60' : 'hover:bg-gray-700/30'}`}
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(theme.path)}
+              onChange={() => toggle(theme.path)}
+              disabled={disabled}
+              className="rounded border-gray-600 bg-gray-800"
+            />
+            <button
+              onClick={() => onActivate(theme.path)}
+              disabled={disabled}
+              className="flex-grow text-left text-sm text-gray-200 truncate"
+              title={theme.path}
+            >
+              {theme.label}
+            </button>
+            <span className="text-xs font-mono text-gray-400">{theme.uiTheme}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default VsixThemeList;
@@ -0,0 +1,51 @@
+// 压缩包读写：从 zip（包括 .vsix）中取出主题相关的文本文件，以及打包批量转换的结果
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+
+const textFilePattern = /\.(json|jsonc|tmTheme|plist)$/i;
+
+// 解压后的大小上限，防止压缩炸弹：单个文件与所有取出的文件合计
+const maxEntryBytes = 8 * 1024 * 1024;
+const maxTotalBytes = 32 * 1024 * 1024;
+
+export class ZipTooLargeError extends Error {
+  constructor(public readonly maxBytes: number) {
+    super(`压缩包解压后超过 ${maxBytes} 字节`);
+    this.name = 'ZipTooLargeError';
+  }
+}
+
+/**
+ * 读取 zip 中的主题相关文本文件
+ * 按文件头中记录的原始大小检查，单个文件或合计超过上限时抛出 ZipTooLargeError
+ * @param data zip 文件内容
+ * @returns 压缩包内路径 → 文件内容
+ */
+export function readZipTextFiles(data: Uint8Array): Record<string, string> {
+  let total = 0;
+  const entries = unzipSync(data, {
+    filter: file => {
+      if (!textFilePattern.test(file.name)) return false;
+      if (file.originalSize > maxEntryBytes) throw new ZipTooLargeError(maxEntryBytes);
+      total += file.originalSize;
+      if (total > maxTotalBytes) throw new ZipTooLargeError(maxTotalBytes);
+      return true;
+    },
+  });
+  const files: Record<string, string> = {};
+  for (const [path, content] of Object.entries(entries)) {
+    files[path] = strFromU8(content);
+  }
+  return files;
+}
+
+/**
+ * 将文本文件打包为 zip
+ * @param files 压缩包内路径 → 文件内容
+ */
+export function createZip(files: Record<string, string>): Uint8Array {
+  const entries: Record<string, Uint8Array> = {};
+  for (const [path, content] of Object.entries(files)) {
+    entries[path] = strToU8(content);
+  }
+  return zipSync(entries, { level: 6 });
+}
@@ -0,0 +1,163 @@
+// 批量转换：从多个文件、文件夹、zip 与 .vsix 中找出所有主题并逐个解析，单个主题失败不影响其余主题
+import { parseVscodeTheme, ParsedVscodeTheme } from './vscodeThemeParser.js';
+import { createMapLoader, findThemeEntries, hasThemeReferences, parseJsonc, resolveThemeIncludes, ThemeJson } from './themeIncludeResolver.js';
+import { parseTmTheme } from './tmTheme.js';
+import { loadVsixTheme, readVsix } from './vsixPackage.js';
+import { readZipTextFiles } from './archive.js';
+
+export interface BatchTheme {
+  /** 唯一标识：文件路径，.vsix 中的主题为 "文件名:主题路径" */
+  id: string;
+  theme?: ParsedVscodeTheme;
+  /** 解析失败的原因 */
+  error?: string;
+}
+
+/** 带相对路径的文件，路径来自文件夹结构或文件名 */
+export interface BatchFile {
+  path: string;
+  file: File;
+}
+
+const themeFilePattern = /\.(json|jsonc|tmTheme|plist)$/i;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// 去掉目录与扩展名，作为缺少 name 字段时的主题名称
+function baseName(path: string): string {
+  return path.substring(path.lastIndexOf('/') + 1).replace(/\.[^.]+$/, '');
+}
+
+async function parseEntry(path: string, files: Record<string, string>): Promise<ParsedVscodeTheme> {
+  if (/\.(tmTheme|plist)$/i.test(path)) return parseTmTheme(files[path], baseName(path));
+  const json = parseJsonc(files[path]);
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error('not a JSON object');
+  }
+  let resolved = json as ThemeJson;
+  if (hasThemeReferences(resolved)) {
+    resolved = await resolveThemeIncludes(resolved, path, createMapLoader(files));
+  }
+  const theme = parseVscodeTheme(resolved);
+  return resolved.name ? theme : { ...theme, name: baseName(path) };
+}
+
+/**
+ * 解析一组文本文件中的所有主题入口，include 在同一组文件中查找
+ * 无法解析的 JSON（package.json 除外）也会列出，以便显示错误
+ * @param files 路径 → 文件内容
+ */
+export async function parseThemeFiles(files: Record<string, string>): Promise<BatchTheme[]> {
+  const entries = new Set(findThemeEntries(files));
+  for (const [path, text] of Object.entries(files)) {
+    if (entries.has(path) || !/\.jsonc?$/i.test(path) || /(^|\/)package\.json$/i.test(path)) continue;
+    try {
+      parseJsonc(text);
+    } catch {
+      entries.add(path);
+    }
+  }
+  const themes: BatchTheme[] = [];
+  for (const path of [...entries].sort()) {
+    try {
+      themes.push({ id: path, theme: await parseEntry(path, files) });
+    } catch (error) {
+      themes.push({ id: path, error: errorMessage(error) });
+    }
+  }
+  return themes;
+}
+
+/**
+ * 解析 .vsix 中的所有主题
+ * @param name 文件名，用作标识前缀
+ * @param data 文件内容
+ */
+export async function parseVsixThemes(name: string, data: Uint8Array): Promise<BatchTheme[]> {
+  try {
+    const pkg = readVsix(data);
+    const themes: BatchTheme[] = [];
+    for (const item of pkg.themes) {
+      const id = `${name}:${item.path}`;
+      try {
+        themes.push({ id, theme: await loadVsixTheme(pkg, item) });
+      } catch (error) {
+        themes.push({ id, error: errorMessage(error) });
+      }
+    }
+    return themes;
+  } catch (error) {
+    return [{ id: name, error: errorMessage(error) }];
+  }
+}
+
+/**
+ * 读取一批文件中的所有主题：文本文件合并后统一查找入口，zip 按 "zip 路径/内部路径" 合并，.vsix 单独解析
+ * 其他类型的文件会被忽略
+ * @param batch 文件列表
+ */
+export async function loadBatchThemes(batch: BatchFile[]): Promise<BatchTheme[]> {
+  const files: Record<string, string> = {};
+  const packages: BatchTheme[] = [];
+  for (const { path, file } of batch) {
+    if (themeFilePattern.test(path)) {
+      files[path] = await file.text();
+    } else if (/\.zip$/i.test(path)) {
+      try {
+        for (const [inner, text] of Object.entries(readZipTextFiles(new Uint8Array(await file.arrayBuffer())))) {
+          files[`${path}/${inner}`] = text;
+        }
+      } catch (error) {
+        packages.push({ id: path, error: errorMessage(error) });
+      }
+    } else if (/\.vsix$/i.test(path)) {
+      packages.push(...await parseVsixThemes(path, new Uint8Array(await file.arrayBuffer())));
+    }
+  }
+  return [...await parseThemeFiles(files), ...packages];
+}
+
+// 逐批读取目录项，readEntries 每次只返回一部分
+function readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  return new Promise((resolve, reject) => {
+    const next = () => reader.readEntries(batch => {
+      if (batch.length === 0) {
+        resolve(entries);
+        return;
+      }
+      entries.push(...batch);
+      next();
+    }, reject);
+    next();
+  });
+}
+
+async function collectEntry(entry: FileSystemEntry, files: BatchFile[]) {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    files.push({ path: entry.fullPath.replace(/^\//, ''), file });
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) await collectEntry(child, files);
+  }
+}
+
+/**
+ * 读取拖放的文件与文件夹（递归展开），路径相对于拖放的根
+ * @param dataTransfer 拖放事件的 dataTransfer
+ */
+export async function readDroppedFiles(dataTransfer: DataTransfer): Promise<BatchFile[]> {
+  // 必须在第一次 await 之前取出所有条目，之后 dataTransfer 会失效
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map(file => ({ path: file.name, file }));
+  }
+  const files: BatchFile[] = [];
+  for (const entry of entries) await collectEntry(entry, files);
+  return files;
+}
@@ -0,0 +1,264 @@
+// 颜色工具：解析 CSS 颜色语法、透明度合成以及与 Xcode 颜色字符串（"r g b a"，0~1）之间的转换
+
+export interface RGBA {
+  /** 各分量取值 0~1 */
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// CSS Color Module Level 4 命名颜色
+const namedColors: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+  beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+  blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+  chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+  darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+  darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+  deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff',
+  firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc',
+  ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000',
+  greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+  indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa', lavenderblush: 'fff0f5',
+  lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080', lightcyan: 'e0ffff',
+  lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1',
+  lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+  lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6',
+  magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+  mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+  mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+  navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+  orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+  paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+  pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+  red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+  sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+  skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+  springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+  tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+  whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32', transparent: '00000000',
+};
+
+const clamp01 = (x: number) => Math.min(1, Math.max(0, x));
+const round6 = (x: number) => Math.round(x * 1000000) / 1000000;
+
+function parseHex(hex: string): RGBA | null {
+  let h = hex;
+  if (!/^[0-9a-fA-F]+$/.test(h)) return null;
+  if (h.length === 3 || h.length === 4) h = h.split('').map(x => x + x).join('');
+  if (h.length === 6) h += 'ff';
+  if (h.length !== 8) return null;
+  const [r, g, b, a] = [0, 2, 4, 6].map(i => parseInt(h.slice(i, i + 2), 16) / 255);
+  return { r, g, b, a };
+}
+
+// 解析函数参数，兼容逗号分隔与 CSS4 的空格 + "/" 写法
+function parseArgs(body: string): string[] {
+  return body.replace(/\//g, ' / ').split(/[\s,]+/).filter(x => x && x !== '/');
+}
+
+function parseNumber(arg: string, percentScale: number): number {
+  const value = parseFloat(arg);
+  if (Number.isNaN(value)) return NaN;
+  return arg.endsWith('%') ? value / 100 * percentScale : value;
+}
+
+function parseAlpha(arg: string | undefined): number {
+  return arg === undefined ? 1 : clamp01(parseNumber(arg, 1));
+}
+
+function parseHue(arg: string): number {
+  const value = parseFloat(arg);
+  if (arg.endsWith('turn')) return value * 360;
+  if (arg.endsWith('rad')) return value * 180 / Math.PI;
+  if (arg.endsWith('grad')) return value * 0.9;
+  return value;
+}
+
+/** HSL（h: 角度，s/l: 0~1）转 RGB */
+export function hslToRgb(h: number, s: number, l: number): Pick<RGBA, 'r' | 'g' | 'b'> {
+  const hue = ((h % 360) + 360) % 360;
+  const k = (n: number) => (n + hue / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return { r: f(0), g: f(8), b: f(4) };
+}
+
+/** RGB 转 HSL（h: 角度，s/l: 0~1） */
+export function rgbToHsl({ r, g, b }: Pick<RGBA, 'r' | 'g' | 'b'>): { h: number; s: number; l: number } {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return { h: 0, s: 0, l };
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === r) h = ((g - b) / d) % 6;
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+  return { h: (h * 60 + 360) % 360, s, l };
+}
+
+/**
+ * 解析 CSS 颜色：#RGB、#RGBA、#RRGGBB、#RRGGBBAA、rgb()/rgba()、hsl()/hsla() 以及命名颜色
+ * @returns 无法解析时返回 null
+ */
+export function parseColor(input: string | undefined | null): RGBA | null {
+  if (!input || typeof input !== 'string') return null;
+  const value = input.trim().toLowerCase();
+  if (value.startsWith('#')) return parseHex(value.slice(1));
+  if (value in namedColors) return parseHex(namedColors[value]);
+
+  const fn = value.match(/^(rgba?|hsla?)\(([^)]*)\)$/);
+  if (!fn) return null;
+  const args = parseArgs(fn[2]);
+  if (args.length < 3 || args.length > 4) return null;
+  let rgb: Pick<RGBA, 'r' | 'g' | 'b'>;
+  if (fn[1].startsWith('rgb')) {
+    const [r, g, b] = args.slice(0, 3).map(x => parseNumber(x, 255) / 255);
+    rgb = { r, g, b };
+  } else {
+    rgb = hslToRgb(parseHue(args[0]), parseNumber(args[1], 1), parseNumber(args[2], 1));
+  }
+  const color = { r: clamp01(rgb.r), g: clamp01(rgb.g), b: clamp01(rgb.b), a: parseAlpha(args[3]) };
+  return [color.r, color.g, color.b, color.a].some(Number.isNaN) ? null : color;
+}
+
+/** 将前景色按透明度合成到背景色上，结果不透明度由两者共同决定 */
+export function compositeOver(fg: RGBA, bg: RGBA): RGBA {
+  const a = fg.a + bg.a * (1 - fg.a);
+  if (a === 0) return { r: 0, g: 0, b: 0, a: 0 };
+  const mix = (f: number, b: number) => (f * fg.a + b * bg.a * (1 - fg.a)) / a;
+  return { r: mix(fg.r, bg.r), g: mix(fg.g, bg.g), b: mix(fg.b, bg.b), a };
+}
+
+/** 转为 Xcode 颜色字符串，如 "0.5 0.25 1 1" */
+export function toXcodeColor(color: RGBA): string {
+  return [color.r, color.g, color.b, color.a].map(x => round6(clamp01(x))).join(' ');
+}
+
+/** 解析 Xcode 颜色字符串 */
+export function parseXcodeColor(value: string | undefined | null): RGBA | null {
+  if (!value || typeof value !== 'string') return null;
+  const parts = value.trim().split(/\s+/).map(Number);
+  if (parts.length < 3 || parts.length > 4 || parts.some(Number.isNaN)) return null;
+  const [r, g, b, a = 1] = parts;
+  return { r: clamp01(r), g: clamp01(g), b: clamp01(b), a: clamp01(a) };
+}
+
+/** 转为 #RRGGBB 或 #RRGGBBAA（有透明度时） */
+export function toHex(color: RGBA): string {
+  const hex = (x: number) => Math.round(clamp01(x) * 255).toString(16).padStart(2, '0');
+  return `#${hex(color.r)}${hex(color.g)}${hex(color.b)}${color.a < 1 ? hex(color.a) : ''}`;
+}
+
+/**
+ * 将 CSS 颜色转换为 Xcode 颜色字符串
+ * @param input CSS 颜色
+ * @param fallback 无法解析时的返回值
+ */
+export function cssToXcodeColor(input: string | undefined | null, fallback = '1 1 1 1'): string {
+  const color = parseColor(input);
+  return color ? toXcodeColor(color) : fallback;
+}
+
+/** WCAG 相对亮度（0~1），忽略透明度 */
+export function relativeLuminance({ r, g, b }: Pick<RGBA, 'r' | 'g' | 'b'>): number {
+  const channel = (c: number) => (c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/** WCAG 对比度（1~21），两色均按不透明处理 */
+export function contrastRatio(a: Pick<RGBA, 'r' | 'g' | 'b'>, b: Pick<RGBA, 'r' | 'g' | 'b'>): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+export interface OKLCH {
+  /** 感知亮度 0~1 */
+  l: number;
+  /** 色度 */
+  c: number;
+  /** 色相角度 0~360 */
+  h: number;
+}
+
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+const fromLinear = (c: number) => (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+
+/** sRGB 转 OKLCH，参考 https://bottosson.github.io/posts/oklab/ */
+export function rgbToOklch({ r, g, b }: Pick<RGBA, 'r' | 'g' | 'b'>): OKLCH {
+  const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)];
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  const L = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+  return { l: L, c: Math.hypot(A, B), h: (Math.atan2(B, A) * 180 / Math.PI + 360) % 360 };
+}
+
+// OKLCH 转线性 sRGB，未做色域裁剪
+function oklchToLinear({ l: L, c, h }: OKLCH): [number, number, number] {
+  const A = c * Math.cos(h * Math.PI / 180);
+  const B = c * Math.sin(h * Math.PI / 180);
+  const l = Math.pow(L + 0.3963377774 * A + 0.2158037573 * B, 3);
+  const m = Math.pow(L - 0.1055613458 * A - 0.0638541728 * B, 3);
+  const s = Math.pow(L - 0.0894841775 * A - 1.2914855480 * B, 3);
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+  ];
+}
+
+/** OKLCH 转 sRGB，超出色域时保持亮度与色相、降低色度 */
+export function oklchToRgb(color: OKLCH): Pick<RGBA, 'r' | 'g' | 'b'> {
+  const inGamut = (c: number) => oklchToLinear({ ...color, c }).every(x => x >= -1e-4 && x <= 1 + 1e-4);
+  let chroma = color.c;
+  if (!inGamut(chroma)) {
+    let low = 0;
+    for (let i = 0; i < 20; i++) {
+      const mid = (low + chroma) / 2;
+      if (inGamut(mid)) low = mid;
+      else chroma = mid;
+    }
+    chroma = low;
+  }
+  const [r, g, b] = oklchToLinear({ ...color, c: chroma }).map(x => clamp01(fromLinear(clamp01(x))));
+  return { r, g, b };
+}
+
+/**
+ * 在 OKLCH 空间中调整亮度（保持色相）使颜色与对照色的对比度达到 minRatio；
+ * 优先朝远离对照色的方向调整，两个方向都达不到时取对比度最高的极值
+ * @param color 需调整的颜色（不透明）
+ * @param against 对照色（不透明）
+ * @param minRatio 最低对比度
+ */
+export function ensureContrast(color: RGBA, against: Pick<RGBA, 'r' | 'g' | 'b'>, minRatio: number): RGBA {
+  if (contrastRatio(color, against) >= minRatio) return color;
+  const lch = rgbToOklch(color);
+  const at = (l: number) => ({ ...oklchToRgb({ ...lch, l }), a: color.a });
+  const own = relativeLuminance(color);
+  const other = relativeLuminance(against);
+  const lighterFirst = own === other ? other < 0.5 : own > other;
+  const directions = lighterFirst ? [1, 0] : [0, 1];
+  for (const target of directions) {
+    if (contrastRatio(at(target), against) < minRatio) continue;
+    // 二分查找满足对比度且改动最小的亮度
+    let near = lch.l;
+    let far = target;
+    for (let i = 0; i < 24; i++) {
+      const mid = (near + far) / 2;
+      if (contrastRatio(at(mid), against) >= minRatio) far = mid;
+      else near = mid;
+    }
+    return at(far);
+  }
+  return directions.map(at).reduce((best, next) => (contrastRatio(next, against) > contrastRatio(best, against) ? next : best));
+}
@@ -0,0 +1,95 @@
+// 对比度检查：计算 syntax 颜色与编辑器背景、普通文本与选区/当前行高亮之间的 WCAG 对比度，并可自动调整
+import { compositeOver, contrastRatio, ensureContrast, parseXcodeColor, RGBA, toXcodeColor } from './color.js';
+
+/** WCAG AA 正文文本的最低对比度 */
+export const defaultMinContrast = 4.5;
+
+export interface ContrastCheck {
+  /** 被检查的 Xcode 字段 */
+  key: string;
+  /** 对照的 Xcode 字段 */
+  against: string;
+  ratio: number;
+}
+
+export interface ContrastFix extends ContrastCheck {
+  /** 调整前的 Xcode 颜色 */
+  from: string;
+  /** 调整后的 Xcode 颜色 */
+  to: string;
+}
+
+// 半透明颜色按 Xcode 的绘制顺序合成到底色上，编辑器背景本身合成到 base 上（与展开透明色时相同，浅色外观为白色）
+function resolveBackdrop(xcodeColors: Record<string, unknown>, base: RGBA) {
+  const background = compositeOver(parseXcodeColor(xcodeColors.DVTSourceTextBackground as string) || base, base);
+  const over = (key: string) => {
+    const color = parseXcodeColor(xcodeColors[key] as string);
+    return color ? compositeOver(color, background) : background;
+  };
+  return {
+    DVTSourceTextBackground: background,
+    DVTSourceTextCurrentLineHighlightColor: over('DVTSourceTextCurrentLineHighlightColor'),
+    DVTSourceTextSelectionColor: over('DVTSourceTextSelectionColor'),
+  };
+}
+
+/**
+ * 计算各颜色对的对比度：每个 syntax 颜色对编辑器背景，普通文本对当前行高亮与选区
+ * @param xcodeColors 非 syntax 字段（可直接传入 plist 模型）
+ * @param syntaxColors DVTSourceTextSyntaxColors
+ * @param base 编辑器背景下方的底色
+ */
+export function measureContrast(xcodeColors: Record<string, unknown>, syntaxColors: Record<string, string>, base: RGBA): ContrastCheck[] {
+  const backdrops = resolveBackdrop(xcodeColors, base);
+  const text = (key: string, backdrop: RGBA) => {
+    const color = parseXcodeColor(syntaxColors[key]);
+    return color ? compositeOver(color, backdrop) : null;
+  };
+  const checks: ContrastCheck[] = [];
+  for (const key of Object.keys(syntaxColors)) {
+    const color = text(key, backdrops.DVTSourceTextBackground);
+    if (color) checks.push({ key, against: 'DVTSourceTextBackground', ratio: contrastRatio(color, backdrops.DVTSourceTextBackground) });
+  }
+  for (const highlight of ['DVTSourceTextCurrentLineHighlightColor', 'DVTSourceTextSelectionColor'] as const) {
+    const color = text('xcode.syntax.plain', backdrops[highlight]);
+    if (color) checks.push({ key: highlight, against: 'xcode.syntax.plain', ratio: contrastRatio(color, backdrops[highlight]) });
+  }
+  return checks;
+}
+
+/**
+ * 将低于最低对比度的颜色在 OKLCH 中调整亮度（保持色相）：syntax 颜色相对背景调整，
+ * 当前行高亮与选区相对普通文本调整；调整后的颜色均为不透明
+ * @param xcodeColors 非 syntax 字段，会被原地修改
+ * @param syntaxColors DVTSourceTextSyntaxColors，会被原地修改
+ * @param minRatio 最低对比度
+ * @param base 编辑器背景下方的底色
+ */
+export function fixContrast(xcodeColors: Record<string, string>, syntaxColors: Record<string, string>, minRatio: number, base: RGBA): ContrastFix[] {
+  const fixes: ContrastFix[] = [];
+  // 略高于阈值，避免颜色写成 6 位小数后又低于阈值
+  const target = minRatio + 0.01;
+  const background = resolveBackdrop(xcodeColors, base).DVTSourceTextBackground;
+  for (const [key, value] of Object.entries(syntaxColors)) {
+    const color = parseXcodeColor(value);
+    if (!color) continue;
+    const flat = compositeOver(color, background);
+    const ratio = contrastRatio(flat, background);
+    if (ratio >= minRatio) continue;
+    syntaxColors[key] = toXcodeColor(ensureContrast(flat, background, target));
+    fixes.push({ key, against: 'DVTSourceTextBackground', ratio, from: value, to: syntaxColors[key] });
+  }
+  const plain = parseXcodeColor(syntaxColors['xcode.syntax.plain']);
+  if (!plain) return fixes;
+  const backdrops = resolveBackdrop(xcodeColors, base);
+  for (const key of ['DVTSourceTextCurrentLineHighlightColor', 'DVTSourceTextSelectionColor'] as const) {
+    const highlight = backdrops[key];
+    const text = compositeOver(plain, highlight);
+    const ratio = contrastRatio(text, highlight);
+    if (ratio >= minRatio) continue;
+    const from = xcodeColors[key];
+    xcodeColors[key] = toXcodeColor(ensureContrast(highlight, text, target));
+    fixes.push({ key, against: 'xcode.syntax.plain', ratio, from, to: xcodeColors[key] });
+  }
+  return fixes;
+}
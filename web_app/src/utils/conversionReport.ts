@@ -0,0 +1,175 @@
+// 转换报告：记录每个 Xcode 字段的来源、回退、无效颜色及未使用的规则，供界面展示与 CLI 检查
+import { ParsedVscodeTheme } from './vscodeThemeParser.js';
+import { parseColor } from './color.js';
+import { compileTokenRules } from './scopeSelector.js';
+import { compileSemanticRules } from './semanticTokens.js';
+import { backdropBase, XcodeKeySource, xcodeSyntaxKeys, XcodeThemeOptions, XcodeThemeTrace } from './xcodeThemeGenerator.js';
+import { ContrastCheck, ContrastFix, defaultMinContrast, measureContrast } from './contrastCheck.js';
+import { inferAppearance, isLightAppearance, normalizeThemeType, ThemeAppearance } from './themeAppearance.js';
+import { SyntaxInferenceVia } from './syntaxInference.js';
+
+export interface ConversionReport {
+  name: string;
+  /** 用于选择默认配色的外观 */
+  appearance: ThemeAppearance;
+  /** 外观由背景亮度推断 */
+  appearanceInferred: boolean;
+  /** 主题声明、但与背景亮度不符而未被采用的外观 */
+  declaredAppearance?: ThemeAppearance;
+  /** 每个颜色字段的来源 */
+  sources: Record<string, XcodeKeySource>;
+  /** 沿用其他字段或使用 Xcode 默认值的字段 */
+  fallbacks: Array<{ key: string; source: XcodeKeySource }>;
+  /** 主题未定义、由相关 scope、workbench 颜色或调色板推断出颜色的 syntax 字段 */
+  inferred: Array<{ key: string; via: SyntaxInferenceVia; from: string }>;
+  /** 主题未提供、由 Xcode 按普通文本显示的 syntax 字段 */
+  missingKeys: string[];
+  /** 无法解析、因此被忽略的颜色 */
+  invalidColors: Array<{ path: string; value: string }>;
+  /** tokenColors 中无法使用的条目 */
+  droppedTokenRules: Array<{ index: number; reason: string }>;
+  /** semanticTokenColors 中无法使用的条目 */
+  droppedSemanticColors: Array<{ selector: string; reason: string }>;
+  /** 未参与任何字段映射的 tokenColors 规则 */
+  unusedTokenRules: Array<{ index: number; name?: string; scope: string }>;
+  /** 未参与任何字段映射的语义颜色选择器 */
+  unusedSemanticColors: string[];
+  /** 低于最低对比度的颜色（设置了 minContrast 或开启自动调整时检查），按调整后的颜色计算 */
+  lowContrast: ContrastCheck[];
+  /** 自动调整过的颜色 */
+  contrastFixes: ContrastFix[];
+  /** 其他问题，如无效的覆盖 */
+  problems: string[];
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+}
+
+function isInvalidColor(value: unknown): boolean {
+  return value !== undefined && (typeof value !== 'string' || !parseColor(value));
+}
+
+function droppedReason(entry: unknown): string | null {
+  if (!entry || typeof entry !== 'object') return 'not an object';
+  const { scope, settings } = entry as { scope?: unknown; settings?: unknown };
+  if (!settings || typeof settings !== 'object') return 'missing settings';
+  const scopes = Array.isArray(scope) ? scope : [scope];
+  if (!scopes.some(s => typeof s === 'string' && s.trim())) {
+    return scope === undefined ? 'no scope (global settings are not used)' : 'invalid scope';
+  }
+  return null;
+}
+
+/**
+ * 根据生成过程生成转换报告
+ * @param theme ParsedVscodeTheme
+ * @param options 生成选项
+ * @param trace traceXcodeTheme 的结果
+ */
+export function createConversionReport(theme: ParsedVscodeTheme, options: XcodeThemeOptions, trace: XcodeThemeTrace): ConversionReport {
+  const { sources } = trace;
+
+  const fallbacks = Object.entries(sources)
+    .filter(([, source]) => source.type === 'fallback' || source.type === 'default')
+    .map(([key, source]) => ({ key, source }));
+  const inferredKeys: ConversionReport['inferred'] = [];
+  for (const [key, source] of Object.entries(sources)) {
+    if (source.type === 'inferred') inferredKeys.push({ key, via: source.via, from: source.from });
+  }
+  const missingKeys = xcodeSyntaxKeys.filter(key => !sources[key]);
+
+  // 无效颜色：都会被跳过，token 与语义颜色改由下一个匹配的规则或推断提供
+  const invalidColors: ConversionReport['invalidColors'] = [];
+  for (const [key, value] of Object.entries(theme.colors)) {
+    if (isInvalidColor(value)) invalidColors.push({ path: `colors.${key}`, value: describeValue(value) });
+  }
+  const tokenColors: unknown[] = Array.isArray(theme.tokenColors) ? theme.tokenColors : [];
+  tokenColors.forEach((entry, index) => {
+    const settings = (entry as { settings?: Record<string, unknown> } | null)?.settings;
+    if (!settings || typeof settings !== 'object') return;
+    for (const field of ['foreground', 'background']) {
+      if (!isInvalidColor(settings[field])) continue;
+      invalidColors.push({ path: `tokenColors[${index}].settings.${field}`, value: describeValue(settings[field]) });
+    }
+  });
+  for (const [selector, value] of Object.entries(theme.semanticTokenColors || {})) {
+    const foreground = typeof value === 'string' ? value : (value as { foreground?: unknown } | null)?.foreground;
+    if (!isInvalidColor(foreground)) continue;
+    invalidColors.push({ path: `semanticTokenColors.${selector}`, value: describeValue(foreground) });
+  }
+
+  const droppedTokenRules: ConversionReport['droppedTokenRules'] = [];
+  tokenColors.forEach((entry, index) => {
+    const reason = droppedReason(entry);
+    if (reason) droppedTokenRules.push({ index, reason });
+  });
+  const used = new Set(trace.usedTokenRules);
+  const unusedTokenRules = compileTokenRules(theme.tokenColors)
+    .filter(rule => !used.has(rule.index))
+    .map(rule => ({ index: rule.index, name: rule.name, scope: rule.selectors.map(selector => selector.text).join(', ') }));
+
+  const semanticRules = compileSemanticRules(theme.semanticTokenColors);
+  const compiled = new Set(semanticRules.map(rule => rule.selector));
+  const droppedSemanticColors = Object.keys(theme.semanticTokenColors || {})
+    .filter(selector => !compiled.has(selector))
+    .map(selector => ({ selector, reason: 'no usable color or font style' }));
+  const usedSemantic = new Set(trace.usedSemanticColors);
+  const unusedSemanticColors = semanticRules.map(rule => rule.selector).filter(selector => !usedSemantic.has(selector));
+
+  const minContrast = options.minContrast || (options.ensureContrast ? defaultMinContrast : 0);
+  const lowContrast = minContrast
+    ? measureContrast(trace.plist, trace.plist.DVTSourceTextSyntaxColors as Record<string, string>, backdropBase(theme)).filter(check => check.ratio < minContrast)
+    : [];
+
+  const problems: string[] = [];
+  if (!theme.semanticHighlighting && semanticRules.length > 0) {
+    problems.push('semanticHighlighting is not enabled, so semanticTokenColors are ignored');
+  }
+  for (const [key, override] of Object.entries(options.overrides || {})) {
+    if (override.color && !parseColor(override.color)) {
+      problems.push(`Override color for ${key} is not a valid color: ${override.color}`);
+    }
+    const source = sources[key];
+    if (override.source && !override.color && !(
+      (source?.type === 'token' && source.scope === override.source) ||
+      ((source?.type === 'color' || source?.type === 'reference') && override.source.replace(/^@/, '') === source.key)
+    )) {
+      problems.push(`Override source for ${key} did not match anything: ${override.source}`);
+    }
+  }
+
+  // 与生成器一致：theme.type 已由解析器按背景校正，显式指定的外观不再推断
+  const normalized = normalizeThemeType(theme.type);
+  const appearance = normalized || inferAppearance(theme.colors);
+  if (theme.declaredType) {
+    problems.push(`The theme declares type ${theme.declaredType}, but its editor background is ${isLightAppearance(appearance) ? 'light' : 'dark'}; converted as ${appearance}`);
+  }
+  return {
+    name: theme.name,
+    appearance,
+    appearanceInferred: !!theme.typeInferred || !normalized,
+    declaredAppearance: theme.declaredType,
+    sources,
+    fallbacks,
+    inferred: inferredKeys,
+    missingKeys,
+    invalidColors,
+    droppedTokenRules,
+    droppedSemanticColors,
+    unusedTokenRules,
+    unusedSemanticColors,
+    lowContrast,
+    contrastFixes: trace.contrastFixes,
+    problems,
+  };
+}
+
+/**
+ * 报告中是否有需要处理的问题（无效颜色、无法使用的规则、对比度不足或其他问题），未使用的规则与回退不算在内
+ * @param report 转换报告
+ */
+export function hasConversionProblems(report: ConversionReport): boolean {
+  return report.invalidColors.length > 0 || report.droppedTokenRules.length > 0
+    || report.droppedSemanticColors.length > 0 || report.lowContrast.length > 0 || report.problems.length > 0;
+}
@@ -0,0 +1,30 @@
+// 文件名工具：由主题名称生成可在各平台安全使用的文件名
+
+/**
+ * 去掉文件名中不允许或容易出问题的字符
+ * @param name 主题名称
+ * @param fallback 处理后为空时使用的名称
+ */
+export function safeFileName(name: string, fallback = 'theme'): string {
+  const cleaned = name
+    .replace(/[\\/:*?"<>|]/g, '-')
+    .replace(/[^\P{Cc}]/gu, '')
+    .replace(/^[\s.]+|[\s.]+$/g, '')
+    .slice(0, 120);
+  return cleaned || fallback;
+}
+
+/**
+ * 生成不与已有名称重复的文件名（不区分大小写），重复时追加序号
+ * @param name 文件名（不含扩展名）
+ * @param used 已使用的名称，会被更新
+ */
+export function uniqueFileName(name: string, used: Set<string>): string {
+  const base = safeFileName(name);
+  let candidate = base;
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    candidate = `${base} ${i}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
@@ -0,0 +1,58 @@
+// 映射预设：将映射编辑器中的手动覆盖保存为 JSON 文件，便于团队复用
+import { xcodeColorKeys, XcodeOverride, XcodeOverrides, xcodeSyntaxKeys } from './xcodeThemeGenerator.js';
+
+export interface MappingPreset {
+  /** 预设格式版本 */
+  vs2xPreset: 1;
+  overrides: XcodeOverrides;
+}
+
+/**
+ * 序列化映射预设
+ * @param overrides 按 Xcode 字段的覆盖
+ */
+export function serializeMappingPreset(overrides: XcodeOverrides): string {
+  const preset: MappingPreset = { vs2xPreset: 1, overrides };
+  return JSON.stringify(preset, null, 2) + '\n';
+}
+
+/**
+ * 解析映射预设，忽略无效的条目
+ * @param text 预设 JSON
+ * @param problems 收集被忽略的未知字段
+ */
+export function parseMappingPreset(text: string, problems?: string[]): XcodeOverrides {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Preset is not valid JSON');
+  }
+  if (!data || typeof data !== 'object' || (data as MappingPreset).vs2xPreset !== 1) {
+    throw new Error('Not a vs2x mapping preset');
+  }
+  return sanitizeOverrides((data as MappingPreset).overrides, problems);
+}
+
+/**
+ * 只保留有效的覆盖条目：字段为已知的 Xcode 字段，color 或 source 为非空字符串
+ * @param value 来自文件或请求的覆盖表
+ * @param problems 收集被忽略的未知字段
+ */
+export function sanitizeOverrides(value: unknown, problems: string[] = []): XcodeOverrides {
+  const overrides: XcodeOverrides = {};
+  if (!value || typeof value !== 'object') return overrides;
+  const known = new Set([...xcodeColorKeys, ...xcodeSyntaxKeys]);
+  for (const [key, entry] of Object.entries(value as Record<string, Partial<XcodeOverride> | null>)) {
+    if (!known.has(key)) {
+      problems.push(`Override for unknown Xcode key ignored: ${key}`);
+      continue;
+    }
+    if (!entry || typeof entry !== 'object') continue;
+    const override: XcodeOverride = {};
+    if (typeof entry.color === 'string' && entry.color) override.color = entry.color;
+    if (typeof entry.source === 'string' && entry.source) override.source = entry.source;
+    if (override.color || override.source) overrides[key] = override;
+  }
+  return overrides;
+}
@@ -0,0 +1,240 @@
+// Apple XML plist 的数据模型、解析与序列化：用于读写 .tmTheme、.xccolortheme 等 plist 格式的主题文件
+// 参考：https://www.apple.com/DTDs/PropertyList-1.0.dtd
+
+export type PlistValue = string | number | boolean | PlistReal | PlistData | PlistDate | PlistValue[] | PlistDict;
+
+// number 按是否为整数写成 <integer> 或 <real>；读取到的 <real>、<data>、<date> 用以下类型保存，写回时保持原来的元素
+
+/** <real> 元素，值为整数时也按 <real> 写回 */
+export class PlistReal {
+  constructor(public readonly value: number) {}
+}
+
+/** <data> 元素，保存去掉空白后的 base64 文本 */
+export class PlistData {
+  constructor(public readonly base64: string) {}
+}
+
+/** <date> 元素，保存原始的 ISO 8601 文本 */
+export class PlistDate {
+  constructor(public readonly text: string) {}
+}
+
+export interface PlistDict {
+  [key: string]: PlistValue;
+}
+
+interface Token {
+  kind: 'open' | 'close' | 'empty' | 'text';
+  name: string;
+  text: string;
+  /** CDATA 中的文本，按原样使用、不解码实体 */
+  raw?: boolean;
+}
+
+const entities: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return entities[entity] ?? match;
+  });
+}
+
+// 依次匹配：CDATA、注释 / 声明 / DOCTYPE（忽略）、标签、文本
+const tokenPattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([A-Za-z][\w.-]*)[^>]*?(\/?)>|([^<]+)/gy;
+
+function tokenize(xml: string): Token[] {
+  const tokens: Token[] = [];
+  tokenPattern.lastIndex = 0;
+  while (tokenPattern.lastIndex < xml.length) {
+    const offset = tokenPattern.lastIndex;
+    const m = tokenPattern.exec(xml);
+    if (!m) throw new Error(`plist 格式错误：位置 ${offset} 处无法解析`);
+    if (m[1] !== undefined) {
+      tokens.push({ kind: 'text', name: '', text: m[1], raw: true });
+    } else if (m[5] !== undefined) {
+      tokens.push({ kind: 'text', name: '', text: m[5] });
+    } else if (m[3] !== undefined) {
+      tokens.push({ kind: m[2] ? 'close' : (m[4] ? 'empty' : 'open'), name: m[3], text: '' });
+    }
+  }
+  return tokens;
+}
+
+class PlistReader {
+  private pos = 0;
+  constructor(private tokens: Token[]) {}
+
+  private next(): Token | undefined {
+    // 元素之间的空白文本没有意义
+    while (this.pos < this.tokens.length && this.tokens[this.pos].kind === 'text' && !this.tokens[this.pos].text.trim()) {
+      this.pos++;
+    }
+    return this.tokens[this.pos++];
+  }
+
+  private readText(name: string): string {
+    let text = '';
+    for (;;) {
+      const token = this.tokens[this.pos++];
+      if (!token) throw new Error(`plist 格式错误：<${name}> 未闭合`);
+      if (token.kind === 'text') text += token.raw ? token.text : decodeEntities(token.text);
+      else if (token.kind === 'close' && token.name === name) return text;
+      else throw new Error(`plist 格式错误：<${name}> 中出现了意外的 <${token.name}>`);
+    }
+  }
+
+  readValue(token = this.next()): PlistValue {
+    if (!token) throw new Error('plist 格式错误：内容意外结束');
+    if (token.kind === 'empty') {
+      switch (token.name) {
+        case 'true': return true;
+        case 'false': return false;
+        case 'dict': return {};
+        case 'array': return [];
+        case 'string': return '';
+        case 'data': return new PlistData('');
+        case 'date': return new PlistDate('');
+      }
+    }
+    if (token.kind !== 'open') throw new Error(`plist 格式错误：意外的 ${token.kind === 'text' ? '文本' : `</${token.name}>`}`);
+    switch (token.name) {
+      case 'dict': return this.readDict();
+      case 'array': return this.readArray();
+      case 'string': return this.readText('string');
+      case 'date': return new PlistDate(this.readText('date').trim());
+      case 'data': return new PlistData(this.readText('data').replace(/\s+/g, ''));
+      case 'integer': case 'real': {
+        const text = this.readText(token.name).trim();
+        const value = Number(text);
+        if (Number.isNaN(value)) throw new Error(`plist 格式错误：无效的数字 ${text}`);
+        return token.name === 'real' ? new PlistReal(value) : value;
+      }
+      case 'true': case 'false': {
+        this.readText(token.name);
+        return token.name === 'true';
+      }
+      default:
+        throw new Error(`plist 格式错误：不支持的元素 <${token.name}>`);
+    }
+  }
+
+  private readDict(): PlistDict {
+    const dict: PlistDict = {};
+    for (;;) {
+      const token = this.next();
+      if (!token) throw new Error('plist 格式错误：<dict> 未闭合');
+      if (token.kind === 'close' && token.name === 'dict') return dict;
+      if (token.kind !== 'open' || token.name !== 'key') throw new Error('plist 格式错误：<dict> 中缺少 <key>');
+      // 用 defineProperty 写入，"__proto__" 这样的键也作为普通字段保存，而不是替换原型
+      Object.defineProperty(dict, this.readText('key'), { value: this.readValue(), enumerable: true, writable: true, configurable: true });
+    }
+  }
+
+  private readArray(): PlistValue[] {
+    const items: PlistValue[] = [];
+    for (;;) {
+      const token = this.next();
+      if (!token) throw new Error('plist 格式错误：<array> 未闭合');
+      if (token.kind === 'close' && token.name === 'array') return items;
+      items.push(this.readValue(token));
+    }
+  }
+
+  readDocument(): PlistValue {
+    let token = this.next();
+    const wrapped = token?.kind === 'open' && token.name === 'plist';
+    if (wrapped) token = this.next();
+    const value = this.readValue(token);
+    if (wrapped) {
+      const close = this.next();
+      if (close?.kind !== 'close' || close.name !== 'plist') throw new Error('plist 格式错误：<plist> 未闭合');
+    }
+    return value;
+  }
+}
+
+/**
+ * 解析 XML plist 文本
+ * @param xml plist 内容
+ */
+export function parsePlist(xml: string): PlistValue {
+  return new PlistReader(tokenize(xml)).readDocument();
+}
+
+/** 判断 plist 值是否为 dict */
+export function isPlistDict(value: PlistValue | undefined): value is PlistDict {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && !(value instanceof PlistReal || value instanceof PlistData || value instanceof PlistDate);
+}
+
+/** 读取数字值（<integer> 或 <real>），其他类型返回 undefined */
+export function plistNumber(value: PlistValue | undefined): number | undefined {
+  if (typeof value === 'number') return value;
+  return value instanceof PlistReal ? value.value : undefined;
+}
+
+const xmlEscapes: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;' };
+
+/** 转义 XML 文本中的特殊字符，并去掉 XML 1.0 不允许出现的控制字符 */
+export function escapeXml(text: string): string {
+  return text.replace(/[^\P{Cc}\t\n\r]/gu, '').replace(/[&<>]/g, ch => xmlEscapes[ch]);
+}
+
+function serializeValue(value: PlistValue, indent: string, lines: string[]) {
+  if (typeof value === 'string') {
+    lines.push(`${indent}<string>${escapeXml(value)}</string>`);
+  } else if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error(`plist 不支持的数字：${value}`);
+    const tag = Number.isInteger(value) ? 'integer' : 'real';
+    lines.push(`${indent}<${tag}>${value}</${tag}>`);
+  } else if (typeof value === 'boolean') {
+    lines.push(`${indent}<${value}/>`);
+  } else if (value instanceof PlistReal) {
+    if (!Number.isFinite(value.value)) throw new Error(`plist 不支持的数字：${value.value}`);
+    lines.push(`${indent}<real>${value.value}</real>`);
+  } else if (value instanceof PlistData) {
+    lines.push(`${indent}<data>${escapeXml(value.base64)}</data>`);
+  } else if (value instanceof PlistDate) {
+    lines.push(`${indent}<date>${escapeXml(value.text)}</date>`);
+  } else if (Array.isArray(value)) {
+    if (value.length === 0) {
+      lines.push(`${indent}<array/>`);
+      return;
+    }
+    lines.push(`${indent}<array>`);
+    for (const item of value) serializeValue(item, indent + '\t', lines);
+    lines.push(`${indent}</array>`);
+  } else {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      lines.push(`${indent}<dict/>`);
+      return;
+    }
+    lines.push(`${indent}<dict>`);
+    for (const [k, v] of entries) {
+      lines.push(`${indent}\t<key>${escapeXml(k)}</key>`);
+      serializeValue(v, indent + '\t', lines);
+    }
+    lines.push(`${indent}</dict>`);
+  }
+}
+
+/**
+ * 将 plist 值序列化为 XML plist 文本，dict 按插入顺序输出，使用制表符缩进
+ * @param value 根节点，通常为 dict
+ */
+export function serializePlist(value: PlistValue): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+  ];
+  serializeValue(value, '', lines);
+  lines.push('</plist>', '');
+  return lines.join('\n');
+}
@@ -0,0 +1,314 @@
+// 预览用的简易 Swift / Objective-C 分词器：把示例代码切分为 Xcode syntax 分类，
+// 并为每个 token 给出代表性的 TextMate scope 栈，以便用 VSCode 规则着色做对比
+// 只覆盖示例代码中出现的语法，识别规则是启发式的，不是完整的语法分析
+
+export type PreviewLanguage = 'swift' | 'objc';
+
+export interface PreviewToken {
+  text: string;
+  /** Xcode syntax 字段，如 xcode.syntax.keyword */
+  key: string;
+  /** 从外到内以空格分隔的 TextMate scope 栈 */
+  scope: string;
+}
+
+export interface PreviewSample {
+  code: string;
+  /** 当前行（光标所在行），从 0 开始 */
+  currentLine: number;
+  /** 选中区域：[行, 起始列, 结束列] */
+  selection: [number, number, number];
+}
+
+export const previewSamples: Record<PreviewLanguage, PreviewSample> = {
+  swift: {
+    code: `import SwiftUI
+
+// MARK: - Model
+
+/// A store for downloaded themes.
+/// - Parameter name: Display name, see https://code.visualstudio.com
+@MainActor
+final class ThemeStore: ObservableObject {
+    @Published var themes: [Theme] = []
+    static let maxCount = 42
+    private let session = URLSession.shared
+
+    enum State { case idle, loading(Double), failed(String) }
+
+    func load(from url: URL) async throws -> Int {
+        #if DEBUG
+        print("Loading themes…", url.absoluteString)
+        #endif
+        let (data, _) = try await session.data(from: url)
+        /* Keep at most maxCount themes */
+        let decoded = try JSONDecoder().decode([Theme].self, from: data)
+        themes = Array(decoded.prefix(Self.maxCount))
+        return themes.count * 2 + 0x1F
+    }
+}`,
+    currentLine: 21,
+    selection: [18, 13, 17],
+  },
+  objc: {
+    code: `#import <Foundation/Foundation.h>
+#define MAX_THEMES 42
+
+NS_ASSUME_NONNULL_BEGIN
+
+/** A store for downloaded themes. @param name Display name */
+@interface ThemeStore : NSObject
+@property (nonatomic, copy) NSArray<NSString *> *themes;
+- (NSInteger)loadFromURL:(NSURL *)url;
+@end
+
+NS_ASSUME_NONNULL_END
+
+@implementation ThemeStore
+
+- (NSInteger)loadFromURL:(NSURL *)url {
+    // TODO: cache results, see https://developer.apple.com
+    NSString *name = @"Monokai";
+    char separator = '/';
+    if (self.themes.count > MAX_THEMES) {
+        return -1;
+    }
+    NSLog(@"Loading %@ from %@", name, url.absoluteString);
+    return [self.themes indexOfObject:name] + 0.5;
+}
+
+@end`,
+    currentLine: 22,
+    selection: [17, 14, 18],
+  },
+};
+
+const keywords: Record<PreviewLanguage, Set<string>> = {
+  swift: new Set([
+    'import', 'final', 'class', 'struct', 'enum', 'protocol', 'extension', 'func', 'var', 'let', 'static', 'private',
+    'public', 'internal', 'case', 'async', 'throws', 'try', 'await', 'return', 'if', 'else', 'guard', 'for', 'in',
+    'while', 'switch', 'self', 'Self', 'true', 'false', 'nil', 'init', 'some', 'any',
+  ]),
+  objc: new Set([
+    'if', 'else', 'for', 'while', 'return', 'self', 'super', 'nil', 'YES', 'NO', 'char', 'int', 'void', 'const',
+    'static', 'nonatomic', 'atomic', 'copy', 'strong', 'weak', 'readonly', 'assign',
+  ]),
+};
+
+// 控制流关键字在 VSCode 语法中使用 keyword.control，其余多为 storage / declaration-specifier
+const controlKeywords = new Set(['if', 'else', 'guard', 'for', 'in', 'while', 'switch', 'case', 'return', 'try', 'await', 'import']);
+const literalKeywords = new Set(['true', 'false', 'nil', 'YES', 'NO', 'self', 'Self', 'super']);
+// 其后的名称是类型声明
+const typeDeclarationKeywords = new Set(['class', 'struct', 'enum', 'protocol', 'extension', '@interface', '@implementation']);
+// 其后的名称是其他声明（函数、属性、枚举成员）
+const otherDeclarationKeywords = new Set(['func', 'let', 'var', 'case']);
+
+// 系统框架中的名称
+const systemClasses = new Set(['NSObject', 'NSString', 'NSArray', 'NSURL', 'URLSession', 'JSONDecoder', 'ObservableObject']);
+const systemTypes = new Set(['String', 'Int', 'Double', 'Bool', 'Array', 'URL', 'Data', 'NSInteger', 'CGFloat']);
+const systemFunctions = new Set(['print', 'NSLog', 'data', 'decode', 'prefix', 'indexOfObject']);
+const systemVariables = new Set(['shared', 'count', 'absoluteString']);
+const systemMacros = new Set(['NS_ASSUME_NONNULL_BEGIN', 'NS_ASSUME_NONNULL_END', 'DEBUG']);
+const systemAttributes = new Set(['MainActor', 'Published']);
+
+// Xcode syntax 字段 → TextMate scope（不含语言根 scope 和语言后缀）
+const keyScopes: Record<string, string> = {
+  'xcode.syntax.plain': '',
+  'xcode.syntax.comment': 'comment.line.double-slash',
+  'xcode.syntax.comment.doc': 'comment.line.documentation',
+  'xcode.syntax.comment.doc.keyword': 'comment.line.documentation keyword.other.documentation',
+  'xcode.syntax.mark': 'comment.line.double-slash meta.mark',
+  'xcode.syntax.url': 'comment.line.double-slash markup.underline.link',
+  'xcode.syntax.string': 'string.quoted.double',
+  'xcode.syntax.character': 'string.quoted.single',
+  'xcode.syntax.number': 'constant.numeric',
+  'xcode.syntax.keyword': 'keyword.other.declaration-specifier',
+  'xcode.syntax.preprocessor': 'meta.preprocessor keyword.control.directive',
+  'xcode.syntax.attribute': 'meta.attribute storage.modifier.attribute',
+  'xcode.syntax.identifier.class': 'entity.name.type.class',
+  'xcode.syntax.identifier.class.system': 'support.class',
+  'xcode.syntax.identifier.type': 'entity.name.type',
+  'xcode.syntax.identifier.type.system': 'support.type',
+  'xcode.syntax.identifier.function': 'meta.function-call entity.name.function',
+  'xcode.syntax.identifier.function.system': 'meta.function-call support.function',
+  'xcode.syntax.identifier.variable': 'variable.other.member',
+  'xcode.syntax.identifier.variable.system': 'support.variable',
+  'xcode.syntax.identifier.constant': 'variable.other.enummember',
+  'xcode.syntax.identifier.constant.system': 'support.constant',
+  'xcode.syntax.identifier.macro': 'entity.name.function.preprocessor',
+  'xcode.syntax.identifier.macro.system': 'support.constant.macro',
+  'xcode.syntax.declaration.type': 'meta.definition.type entity.name.type',
+  'xcode.syntax.declaration.other': 'meta.definition.function entity.name.function',
+};
+
+function scopeFor(key: string, language: PreviewLanguage, scope = keyScopes[key] ?? ''): string {
+  const suffix = language === 'swift' ? '.swift' : '.objc';
+  const inner = scope.split(' ').filter(Boolean).map(s => s + suffix);
+  return [`source${suffix}`, ...inner].join(' ');
+}
+
+function keywordScope(word: string): string {
+  if (literalKeywords.has(word)) return 'constant.language';
+  if (controlKeywords.has(word)) return 'keyword.control';
+  return keyScopes['xcode.syntax.keyword'];
+}
+
+// 注释内容：识别 URL、文档关键字和 MARK
+function commentTokens(text: string, key: string, language: PreviewLanguage): PreviewToken[] {
+  const tokens: PreviewToken[] = [];
+  const re = /(https?:\/\/[^\s*]+)|(- (?:Parameter|Returns|Throws)\b|@(?:param|return|throws)\b)|(MARK:.*)/g;
+  let last = 0;
+  let m: RegExpExecArray | null;
+  const push = (value: string, tokenKey: string) => {
+    if (value) tokens.push({ text: value, key: tokenKey, scope: scopeFor(tokenKey, language) });
+  };
+  while ((m = re.exec(text))) {
+    push(text.slice(last, m.index), key);
+    if (m[1]) push(m[1], 'xcode.syntax.url');
+    else if (m[2]) push(m[2], key === 'xcode.syntax.comment.doc' ? 'xcode.syntax.comment.doc.keyword' : key);
+    else push(m[3], 'xcode.syntax.mark');
+    last = m.index + m[0].length;
+  }
+  push(text.slice(last), key);
+  return tokens;
+}
+
+interface ScanState {
+  inBlockComment: false | 'xcode.syntax.comment' | 'xcode.syntax.comment.doc';
+  userClasses: Set<string>;
+  userTypes: Set<string>;
+  constants: Set<string>;
+  members: Set<string>;
+}
+
+function classifyIdentifier(word: string, line: string, start: number, prevWord: string, language: PreviewLanguage, state: ScanState): [string, string?] {
+  const before = line.slice(0, start).trimEnd();
+  const prevChar = before.slice(-1);
+  const nextChar = line.slice(start + word.length).trimStart()[0] || '';
+
+  if (keywords[language].has(word)) return ['xcode.syntax.keyword', keywordScope(word)];
+  if (typeDeclarationKeywords.has(prevWord)) {
+    (prevWord === 'class' || prevWord === '@interface' || prevWord === '@implementation' ? state.userClasses : state.userTypes).add(word);
+    return ['xcode.syntax.declaration.type'];
+  }
+  if (prevChar === '@' && systemAttributes.has(word)) return ['xcode.syntax.attribute'];
+  if (otherDeclarationKeywords.has(prevWord) || (prevWord === ',' && /^\s*enum .*\bcase\b/.test(line))) {
+    if (prevWord === 'case' || prevWord === ',') state.constants.add(word);
+    // 类型成员（缩进一级）在后续使用时按项目变量着色
+    else if (/^ {4}\S/.test(line)) state.members.add(word);
+    return ['xcode.syntax.declaration.other', prevWord === 'func' ? undefined : 'meta.definition.variable variable.other.declaration'];
+  }
+  // Objective-C 方法和属性声明：- (Type)name、@property (...) Type *name;
+  if (language === 'objc' && /^[-+]\s*\([^)]*\)$/.test(before)) return ['xcode.syntax.declaration.other'];
+  if (language === 'objc' && nextChar === ';' && /^@property\b/.test(line)) return ['xcode.syntax.declaration.other'];
+  if (systemMacros.has(word)) return ['xcode.syntax.identifier.macro.system'];
+  if (systemClasses.has(word)) return ['xcode.syntax.identifier.class.system'];
+  if (systemTypes.has(word)) return ['xcode.syntax.identifier.type.system'];
+  const isCall = nextChar === '(' || (language === 'objc' && nextChar === ':');
+  if (isCall && systemFunctions.has(word)) return ['xcode.syntax.identifier.function.system'];
+  if (language === 'objc' && /^[A-Z][A-Z0-9_]+$/.test(word)) return ['xcode.syntax.identifier.macro'];
+  if (state.userClasses.has(word)) return ['xcode.syntax.identifier.class'];
+  if (state.userTypes.has(word) || /^[A-Z]/.test(word)) return ['xcode.syntax.identifier.type'];
+  if (isCall) return ['xcode.syntax.identifier.function'];
+  if (systemVariables.has(word) && prevChar === '.') return ['xcode.syntax.identifier.variable.system'];
+  if (state.constants.has(word) && prevChar === '.') return ['xcode.syntax.identifier.constant'];
+  if (prevChar === '.' || state.members.has(word)) return ['xcode.syntax.identifier.variable'];
+  // 局部变量和参数在 Xcode 中按普通文本显示
+  return ['xcode.syntax.plain', 'variable.other'];
+}
+
+function tokenizeLine(line: string, language: PreviewLanguage, state: ScanState): PreviewToken[] {
+  const tokens: PreviewToken[] = [];
+  const push = (text: string, key: string, scope?: string) => {
+    tokens.push({ text, key, scope: scopeFor(key, language, scope) });
+  };
+  let pos = 0;
+  let prevWord = '';
+
+  if (state.inBlockComment) {
+    const end = line.indexOf('*/');
+    const text = end < 0 ? line : line.slice(0, end + 2);
+    tokens.push(...commentTokens(text, state.inBlockComment, language));
+    if (end < 0) return tokens;
+    state.inBlockComment = false;
+    pos = text.length;
+  }
+
+  // Objective-C 预处理指令整行按预处理着色，宏名单独识别
+  const directive = language === 'objc' && line.match(/^(#\s*\w+)(\s+)(\w+)?(.*)$/);
+  if (directive) {
+    push(directive[1], 'xcode.syntax.preprocessor');
+    push(directive[2], 'xcode.syntax.plain');
+    if (directive[1] === '#define' && directive[3]) {
+      push(directive[3], 'xcode.syntax.identifier.macro', 'meta.preprocessor.macro entity.name.function.preprocessor');
+      const rest = directive[4].match(/^(\s*)(\d+)$/);
+      if (rest) {
+        push(rest[1], 'xcode.syntax.plain');
+        push(rest[2], 'xcode.syntax.number');
+      } else {
+        push(directive[4], 'xcode.syntax.preprocessor');
+      }
+    } else {
+      push((directive[3] || '') + directive[4], 'xcode.syntax.preprocessor', 'meta.preprocessor.include string.quoted.other.lt-gt.include');
+    }
+    return tokens;
+  }
+
+  while (pos < line.length) {
+    const rest = line.slice(pos);
+    let m: RegExpMatchArray | null;
+    if ((m = rest.match(/^\/\*\*?/))) {
+      const key = m[0] === '/**' ? 'xcode.syntax.comment.doc' : 'xcode.syntax.comment';
+      const end = rest.indexOf('*/', 2);
+      const text = end < 0 ? rest : rest.slice(0, end + 2);
+      tokens.push(...commentTokens(text, key, language));
+      if (end < 0) state.inBlockComment = key;
+      pos += text.length;
+      continue;
+    }
+    if ((m = rest.match(/^\s+/))) {
+      push(m[0], 'xcode.syntax.plain');
+    } else if ((m = rest.match(/^\/\/.*/))) {
+      tokens.push(...commentTokens(m[0], m[0].startsWith('///') ? 'xcode.syntax.comment.doc' : 'xcode.syntax.comment', language));
+    } else if ((m = rest.match(/^@?"(?:[^"\\]|\\.)*"/))) {
+      push(m[0], 'xcode.syntax.string');
+    } else if ((m = rest.match(/^'(?:[^'\\]|\\.)'/))) {
+      push(m[0], 'xcode.syntax.character');
+    } else if ((m = rest.match(/^(?:0x[0-9a-fA-F_]+|\d[\d_]*(?:\.\d[\d_]*)?)/))) {
+      push(m[0], 'xcode.syntax.number');
+    } else if ((m = rest.match(/^#\w+/))) {
+      push(m[0], 'xcode.syntax.preprocessor', 'meta.preprocessor.conditional keyword.control.preprocessor');
+    } else if (language === 'objc' && (m = rest.match(/^@\w+/))) {
+      push(m[0], 'xcode.syntax.keyword', 'storage.type');
+      prevWord = m[0];
+    } else if (language === 'swift' && (m = rest.match(/^@(\w+)/))) {
+      push(m[0], 'xcode.syntax.attribute');
+    } else if ((m = rest.match(/^[A-Za-z_]\w*/))) {
+      const [key, scope] = classifyIdentifier(m[0], line, pos, prevWord, language, state);
+      push(m[0], key, scope);
+      prevWord = m[0];
+    } else {
+      m = rest.match(/^./) as RegExpMatchArray;
+      push(m[0], 'xcode.syntax.plain');
+      prevWord = m[0];
+    }
+    pos += m[0].length;
+  }
+  return tokens;
+}
+
+/**
+ * 将示例代码分词，每行一个 token 数组
+ * @param code 示例代码
+ * @param language 代码语言
+ */
+export function tokenizePreview(code: string, language: PreviewLanguage): PreviewToken[][] {
+  const state: ScanState = {
+    inBlockComment: false,
+    userClasses: new Set(),
+    userTypes: new Set(),
+    constants: new Set(),
+    members: new Set(),
+  };
+  return code.split('\n').map(line => tokenizeLine(line, language, state));
+}
@@ -0,0 +1,203 @@
+// TextMate scope 选择器：解析 tokenColors[].scope 并按 VS Code 的规则计算匹配与优先级
+// 参考：https://macromates.com/manual/en/scope_selectors 以及 vscode-textmate 的主题匹配实现
+import { parseColor } from './color.js';
+
+export interface ScopeSelector {
+  /** 选择器原文（逗号拆分后的单项） */
+  text: string;
+  /** 后代选择路径，从外到内，最后一项需匹配最内层 scope */
+  path: string[];
+  /** 排除路径（`a - b`），匹配到任意一个即视为不匹配 */
+  excludes: string[][];
+}
+
+export interface SelectorMatch {
+  /** 最内层选择器的点分段数，越大越具体 */
+  depth: number;
+  /** 匹配到的父级选择器个数 */
+  parents: number;
+  /** 父级选择器点分段数之和 */
+  parentDepth: number;
+}
+
+export interface TokenRuleSettings {
+  foreground?: string;
+  background?: string;
+  fontStyle?: string;
+}
+
+export interface TokenRule {
+  /** 在 tokenColors 中的位置，同等具体度时靠后的规则胜出 */
+  index: number;
+  /** 规则的 name 字段（如有） */
+  name?: string;
+  selectors: ScopeSelector[];
+  settings: TokenRuleSettings;
+}
+
+export interface ScopeMatchResult {
+  rule: TokenRule;
+  selector: ScopeSelector;
+  match: SelectorMatch;
+}
+
+export interface ResolvedScopeStyle {
+  foreground?: ScopeMatchResult;
+  fontStyle?: ScopeMatchResult;
+}
+
+function splitPath(text: string): string[] {
+  // 子选择符 `>` 按后代选择处理，和 VS Code 早期版本行为一致
+  return text.split(/[\s>]+/).filter(Boolean);
+}
+
+/**
+ * 解析 scope 选择器字符串（支持逗号分组、后代路径与 `-` 排除）
+ * @param selector 如 "comment, meta.function entity.name.function - meta.embedded"
+ */
+export function parseScopeSelector(selector: string): ScopeSelector[] {
+  const result: ScopeSelector[] = [];
+  for (const raw of selector.split(',')) {
+    const text = raw.trim();
+    if (!text) continue;
+    const [include, ...excluded] = text.split(/\s+-\s+|^-\s*|\s+-(?=\S)/);
+    const path = splitPath(include || '');
+    if (path.length === 0) continue;
+    result.push({
+      text,
+      path,
+      excludes: excluded.map(splitPath).filter(p => p.length > 0),
+    });
+  }
+  return result;
+}
+
+/** 判断单个 scope 是否以选择器为前缀（按点分段） */
+export function scopeMatches(selector: string, scope: string): boolean {
+  return scope === selector || scope.startsWith(selector + '.');
+}
+
+function segmentCount(scope: string): number {
+  return scope.split('.').length;
+}
+
+// 在 stack[0..end] 中从内向外依次寻找 path 的各个父级
+function matchParents(path: string[], stack: string[], end: number): { parents: number; parentDepth: number } | null {
+  let parentDepth = 0;
+  let cursor = end;
+  for (let i = path.length - 1; i >= 0; i--) {
+    let found = false;
+    while (cursor >= 0) {
+      const scope = stack[cursor--];
+      if (scopeMatches(path[i], scope)) {
+        found = true;
+        parentDepth += segmentCount(path[i]);
+        break;
+      }
+    }
+    if (!found) return null;
+  }
+  return { parents: path.length, parentDepth };
+}
+
+// 排除路径可以匹配栈中的任意位置，而不要求落在最内层
+function matchesAnywhere(path: string[], stack: string[]): boolean {
+  const leaf = path[path.length - 1];
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (scopeMatches(leaf, stack[i]) && matchParents(path.slice(0, -1), stack, i - 1)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * 用选择器匹配一个 scope 栈
+ * @param selector 已解析的选择器
+ * @param stack scope 栈，从外（如 source.swift）到内
+ * @returns 匹配的具体度，不匹配时返回 null
+ */
+export function matchScopeSelector(selector: ScopeSelector, stack: string[]): SelectorMatch | null {
+  if (stack.length === 0) return null;
+  const leaf = selector.path[selector.path.length - 1];
+  if (!scopeMatches(leaf, stack[stack.length - 1])) return null;
+  const parents = matchParents(selector.path.slice(0, -1), stack, stack.length - 2);
+  if (!parents) return null;
+  if (selector.excludes.some(ex => matchesAnywhere(ex, stack))) return null;
+  return { depth: segmentCount(leaf), ...parents };
+}
+
+/** 比较两个匹配结果的具体度，正数表示 a 更具体 */
+export function compareSelectorMatch(a: SelectorMatch, b: SelectorMatch): number {
+  if (a.depth !== b.depth) return a.depth - b.depth;
+  if (a.parents !== b.parents) return a.parents - b.parents;
+  return a.parentDepth - b.parentDepth;
+}
+
+/**
+ * 将 tokenColors 编译为可匹配的规则列表，忽略没有 scope 的全局规则
+ * @param tokenColors VSCode 主题的 tokenColors 数组
+ */
+export function compileTokenRules(tokenColors: unknown): TokenRule[] {
+  if (!Array.isArray(tokenColors)) return [];
+  const rules: TokenRule[] = [];
+  tokenColors.forEach((token, index) => {
+    if (!token || typeof token !== 'object') return;
+    const { scope, settings, name } = token as { scope?: unknown; settings?: unknown; name?: unknown };
+    const scopeList = Array.isArray(scope) ? scope : [scope];
+    const selectors = scopeList
+      .filter((s): s is string => typeof s === 'string')
+      .flatMap(parseScopeSelector);
+    if (selectors.length === 0 || !settings || typeof settings !== 'object') return;
+    rules.push({
+      index,
+      name: typeof name === 'string' ? name : undefined,
+      selectors,
+      settings: settings as TokenRuleSettings,
+    });
+  });
+  return rules;
+}
+
+/** 找出规则中与 scope 栈匹配度最高的选择器 */
+export function matchTokenRule(rule: TokenRule, stack: string[]): ScopeMatchResult | null {
+  let best: ScopeMatchResult | null = null;
+  for (const selector of rule.selectors) {
+    const match = matchScopeSelector(selector, stack);
+    if (match && (!best || compareSelectorMatch(match, best.match) > 0)) {
+      best = { rule, selector, match };
+    }
+  }
+  return best;
+}
+
+function isBetter(candidate: ScopeMatchResult, current: ScopeMatchResult | undefined): boolean {
+  if (!current) return true;
+  const cmp = compareSelectorMatch(candidate.match, current.match);
+  return cmp > 0 || (cmp === 0 && candidate.rule.index > current.rule.index);
+}
+
+/**
+ * 按 VS Code 的方式为 scope 栈解析样式：前景色与字体样式分别取最具体的规则
+ * 无法解析的前景色不参与匹配，由下一个匹配的规则提供颜色
+ * @param rules compileTokenRules 的结果
+ * @param stack scope 栈，从外到内
+ */
+export function resolveScopeStyle(rules: TokenRule[], stack: string[]): ResolvedScopeStyle {
+  const resolved: ResolvedScopeStyle = {};
+  for (const rule of rules) {
+    const { fontStyle } = rule.settings;
+    const foreground = parseColor(rule.settings.foreground) ? rule.settings.foreground : undefined;
+    if (!foreground && typeof fontStyle !== 'string') continue;
+    const result = matchTokenRule(rule, stack);
+    if (!result) continue;
+    if (foreground && isBetter(result, resolved.foreground)) resolved.foreground = result;
+    if (typeof fontStyle === 'string' && isBetter(result, resolved.fontStyle)) resolved.fontStyle = result;
+  }
+  return resolved;
+}
+
+/** 将空格分隔的 scope 栈字符串拆成数组 */
+export function toScopeStack(scopes: string): string[] {
+  return scopes.split(/\s+/).filter(Boolean);
+}
@@ -0,0 +1,110 @@
+// 语义高亮：解析 semanticTokenColors 的选择器（type.modifier:language）并计算匹配
+// 参考：https://code.visualstudio.com/api/language-extensions/semantic-highlight-guide#theming
+
+import { FontStyle } from './xcodeFonts.js';
+import { parseColor } from './color.js';
+
+export interface SemanticToken {
+  type: string;
+  modifiers?: string[];
+  language?: string;
+}
+
+export interface SemanticTokenStyle {
+  foreground?: string;
+  fontStyle?: Partial<FontStyle>;
+}
+
+export interface SemanticRule {
+  /** semanticTokenColors 中的原始键 */
+  selector: string;
+  type: string;
+  modifiers: string[];
+  language?: string;
+  style: SemanticTokenStyle;
+}
+
+export interface SemanticMatchResult {
+  rule: SemanticRule;
+  score: number;
+}
+
+export interface ResolvedSemanticStyle {
+  foreground?: SemanticMatchResult;
+  fontStyle?: SemanticMatchResult;
+}
+
+function parseStyle(value: unknown): SemanticTokenStyle | null {
+  if (typeof value === 'string') return { foreground: value };
+  if (!value || typeof value !== 'object') return null;
+  const { foreground, fontStyle, bold, italic, underline } = value as Record<string, unknown>;
+  const style: SemanticTokenStyle = {};
+  if (typeof foreground === 'string') style.foreground = foreground;
+  // fontStyle 字符串会整体覆盖样式，单独的 bold/italic/underline 只覆盖对应项
+  if (typeof fontStyle === 'string') {
+    const parts = fontStyle.split(/\s+/);
+    style.fontStyle = { bold: parts.includes('bold'), italic: parts.includes('italic'), underline: parts.includes('underline') };
+  }
+  const flags = { bold, italic, underline };
+  for (const [k, v] of Object.entries(flags)) {
+    if (typeof v === 'boolean') style.fontStyle = { ...style.fontStyle, [k]: v };
+  }
+  return style.foreground || style.fontStyle ? style : null;
+}
+
+/**
+ * 将 semanticTokenColors 编译为规则列表
+ * @param semanticTokenColors 如 { "class.declaration": "#fff", "*.defaultLibrary": { "italic": true } }
+ */
+export function compileSemanticRules(semanticTokenColors: Record<string, unknown> | undefined): SemanticRule[] {
+  const rules: SemanticRule[] = [];
+  for (const [selector, value] of Object.entries(semanticTokenColors || {})) {
+    const style = parseStyle(value);
+    if (!style) continue;
+    const [typeAndModifiers, language] = selector.trim().split(':');
+    const [type, ...modifiers] = typeAndModifiers.split('.');
+    if (!type) continue;
+    rules.push({ selector, type, modifiers, language: language || undefined, style });
+  }
+  return rules;
+}
+
+/**
+ * 计算规则与语义 token 的匹配分数，规则与 VS Code 一致：
+ * 具体类型 +100，每个修饰符 +100，语言 +10；不匹配返回 -1
+ */
+export function matchSemanticRule(rule: SemanticRule, token: SemanticToken): number {
+  let score = 0;
+  if (rule.type !== '*') {
+    if (rule.type !== token.type) return -1;
+    score += 100;
+  }
+  const modifiers = token.modifiers || [];
+  for (const m of rule.modifiers) {
+    if (!modifiers.includes(m)) return -1;
+    score += 100;
+  }
+  if (rule.language) {
+    if (rule.language !== token.language) return -1;
+    score += 10;
+  }
+  return score;
+}
+
+/**
+ * 为语义 token 解析前景色与字体样式，分数相同时后出现的规则胜出；无法解析的前景色不参与匹配
+ */
+export function resolveSemanticStyle(rules: SemanticRule[], token: SemanticToken): ResolvedSemanticStyle {
+  const resolved: ResolvedSemanticStyle = {};
+  for (const rule of rules) {
+    const score = matchSemanticRule(rule, token);
+    if (score < 0) continue;
+    if (parseColor(rule.style.foreground) && (!resolved.foreground || score >= resolved.foreground.score)) {
+      resolved.foreground = { rule, score };
+    }
+    if (rule.style.fontStyle && (!resolved.fontStyle || score >= resolved.fontStyle.score)) {
+      resolved.fontStyle = { rule, score };
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,211 @@
+// 推断主题未定义的 syntax 字段：依次尝试相关 scope、相关 workbench 颜色与调色板中色相相近的颜色簇
+// 都没有结果时必需的字段才由生成器沿用 plain，避免数字、关键字等显示得和普通文本一样
+import { ParsedVscodeTheme } from './vscodeThemeParser.js';
+import { parseColor, parseXcodeColor, RGBA, rgbToOklch, toHex } from './color.js';
+import { resolveScopeStyle, TokenRule, toScopeStack } from './scopeSelector.js';
+import { isLightAppearance } from './themeAppearance.js';
+
+/** 推断依据：相关 scope、workbench 颜色或调色板 */
+export type SyntaxInferenceVia = 'scope' | 'color' | 'palette';
+
+export interface SyntaxInference {
+  /** CSS 颜色 */
+  color: string;
+  via: SyntaxInferenceVia;
+  /** 命中的 scope 选择器、VS Code 颜色键或调色板中的颜色 */
+  from: string;
+  /** 通过相关 scope 推断时提供颜色与字体样式的规则位置 */
+  rules?: number[];
+  fontStyle?: string;
+}
+
+// 映射表中的 scope 栈都未命中时尝试的相关 scope，按相关程度排列
+const relatedScopes: Record<string, string[]> = {
+  'xcode.syntax.comment': ['punctuation.definition.comment', 'comment.block.documentation', 'comment.line', 'comment.block'],
+  'xcode.syntax.string': ['string.quoted', 'string.quoted.single', 'string.template', 'string.interpolated', 'string.unquoted', 'markup.inline.raw'],
+  'xcode.syntax.character': ['constant.character', 'constant.character.escape', 'string.quoted.single'],
+  'xcode.syntax.number': ['constant.numeric', 'constant', 'constant.language', 'constant.other', 'support.constant'],
+  'xcode.syntax.keyword': ['keyword', 'keyword.control', 'storage.type', 'storage', 'storage.modifier', 'keyword.other'],
+  'xcode.syntax.preprocessor': ['meta.preprocessor', 'keyword.control.directive', 'keyword.control.import', 'keyword.other.import'],
+  'xcode.syntax.identifier.variable': ['variable', 'variable.other.readwrite', 'variable.other.property', 'variable.parameter', 'support.variable'],
+  'xcode.syntax.identifier.function': ['entity.name.function', 'support.function', 'variable.function', 'entity.name.method', 'meta.function-call'],
+  'xcode.syntax.identifier.type': ['entity.name.type', 'support.type', 'entity.name.class', 'support.class', 'entity.other.inherited-class'],
+  'xcode.syntax.identifier.class': ['entity.name.class', 'entity.name.type', 'support.class', 'entity.other.inherited-class', 'support.type'],
+  'xcode.syntax.identifier.constant': ['variable.other.constant', 'variable.other.enummember', 'constant.other', 'constant.language', 'constant'],
+  'xcode.syntax.identifier.macro': ['entity.name.function.preprocessor', 'entity.name.function.macro', 'support.function.macro', 'meta.preprocessor'],
+  'xcode.syntax.attribute': ['entity.other.attribute-name', 'storage.modifier.attribute', 'meta.attribute', 'meta.decorator', 'storage.type.annotation'],
+};
+
+// 相关 scope 也没有时尝试的 workbench 颜色：符号图标、调试表达式与终端 ANSI 颜色通常与语法配色一致
+const relatedColors: Record<string, string[]> = {
+  'xcode.syntax.comment': ['editorLineNumber.foreground', 'editorCodeLens.foreground', 'descriptionForeground'],
+  'xcode.syntax.string': ['symbolIcon.stringForeground', 'debugTokenExpression.string', 'terminal.ansiGreen'],
+  'xcode.syntax.character': ['debugTokenExpression.string', 'symbolIcon.stringForeground', 'terminal.ansiGreen'],
+  'xcode.syntax.number': ['symbolIcon.numberForeground', 'debugTokenExpression.number'],
+  'xcode.syntax.keyword': ['symbolIcon.keywordForeground', 'terminal.ansiMagenta'],
+  'xcode.syntax.identifier.variable': ['symbolIcon.variableForeground', 'debugTokenExpression.name'],
+  'xcode.syntax.identifier.function': ['symbolIcon.functionForeground', 'symbolIcon.methodForeground', 'terminal.ansiBlue'],
+  'xcode.syntax.identifier.type': ['symbolIcon.structForeground', 'symbolIcon.classForeground', 'terminal.ansiYellow'],
+  'xcode.syntax.identifier.class': ['symbolIcon.classForeground', 'symbolIcon.structForeground', 'terminal.ansiYellow'],
+  'xcode.syntax.identifier.constant': ['symbolIcon.constantForeground', 'symbolIcon.enumeratorMemberForeground', 'debugTokenExpression.boolean'],
+};
+
+// 在调色板中查找的 OKLCH 色相（角度），对应常见主题的配色习惯；comment 取介于背景与前景之间的灰色
+const paletteHues: Record<string, number> = {
+  'xcode.syntax.string': 145,
+  'xcode.syntax.character': 145,
+  'xcode.syntax.number': 55,
+  'xcode.syntax.keyword': 320,
+  'xcode.syntax.identifier.function': 255,
+  'xcode.syntax.identifier.type': 95,
+  'xcode.syntax.identifier.class': 95,
+  'xcode.syntax.identifier.constant': 55,
+};
+
+// 色度低于该值视为灰色
+const grayChroma = 0.04;
+// 同一颜色簇内的最大色相差
+const clusterHueSpread = 20;
+// 调色板颜色与目标色相的最大差值
+const maxHueDistance = 30;
+
+interface PaletteColor {
+  /** 不透明的 #RRGGBB */
+  hex: string;
+  l: number;
+  c: number;
+  h: number;
+  /** 出现次数 */
+  weight: number;
+}
+
+interface PaletteCluster extends PaletteColor {
+  /** 簇中的颜色，按出现次数从多到少；簇的 hex、l、c、h 取第一个 */
+  colors: string[];
+}
+
+const hueDistance = (a: number, b: number) => Math.min(Math.abs(a - b), 360 - Math.abs(a - b));
+
+// 统计 tokenColors 与 semanticTokenColors 中的前景色，按色相聚成颜色簇（灰色按亮度聚类）
+function paletteClusters(theme: ParsedVscodeTheme, rules: TokenRule[]): PaletteCluster[] {
+  const counts = new Map<string, PaletteColor>();
+  const add = (value: unknown) => {
+    const color = typeof value === 'string' ? parseColor(value) : null;
+    if (!color) return;
+    const hex = toHex({ ...color, a: 1 });
+    const entry = counts.get(hex) || { hex, ...rgbToOklch(color), weight: 0 };
+    entry.weight++;
+    counts.set(hex, entry);
+  };
+  for (const rule of rules) add(rule.settings.foreground);
+  for (const style of Object.values(theme.semanticTokenColors)) {
+    add(style && typeof style === 'object' ? (style as { foreground?: unknown }).foreground : style);
+  }
+
+  const clusters: PaletteCluster[] = [];
+  for (const color of [...counts.values()].sort((a, b) => b.weight - a.weight)) {
+    const { l, c, h } = color;
+    const cluster = clusters.find(item => (c < grayChroma
+      ? item.c < grayChroma && Math.abs(item.l - l) < 0.05
+      : item.c >= grayChroma && hueDistance(item.h, h) <= clusterHueSpread));
+    if (cluster) {
+      cluster.weight += color.weight;
+      cluster.colors.push(color.hex);
+    } else {
+      clusters.push({ ...color, colors: [color.hex] });
+    }
+  }
+  return clusters;
+}
+
+// 在候选簇中按顺序取第一个可用的颜色
+function firstUsable(clusters: PaletteCluster[], usable: (hex: string) => boolean): string | null {
+  for (const cluster of clusters) {
+    const hex = cluster.colors.find(usable);
+    if (hex) return hex;
+  }
+  return null;
+}
+
+// 调色板中最接近目标色相的颜色，色相相同时取出现次数多的簇
+function nearestHue(clusters: PaletteCluster[], hue: number, usable: (hex: string) => boolean): string | null {
+  const candidates = clusters
+    .filter(cluster => cluster.c >= grayChroma && hueDistance(cluster.h, hue) <= maxHueDistance)
+    .sort((a, b) => hueDistance(a.h, hue) - hueDistance(b.h, hue) || b.weight - a.weight);
+  return firstUsable(candidates, usable);
+}
+
+// 注释色：亮度介于背景与前景之间、低色度且与前景明显不同的颜色中最接近两者中点的一个
+function commentTone(theme: ParsedVscodeTheme, clusters: PaletteCluster[], usable: (hex: string) => boolean): string | null {
+  const light = isLightAppearance(theme.type);
+  const background = parseColor(theme.colors['editor.background']);
+  const foreground = parseColor(theme.colors['editor.foreground'] || theme.colors.foreground);
+  const bg = background ? rgbToOklch(background).l : light ? 1 : 0;
+  const fg = foreground ? rgbToOklch(foreground).l : light ? 0 : 1;
+  const middle = (bg + fg) / 2;
+  const candidates = clusters
+    .filter(cluster => cluster.c < grayChroma * 2 && Math.abs(cluster.l - fg) >= 0.1
+      && cluster.l > Math.min(bg, fg) && cluster.l < Math.max(bg, fg))
+    .sort((a, b) => Math.abs(a.l - middle) - Math.abs(b.l - middle));
+  return firstUsable(candidates, usable);
+}
+
+/**
+ * 为主题未定义的 syntax 字段推断颜色
+ * 依次尝试：相关 scope（如 constant.numeric → constant → constant.language）、相关 workbench 颜色、调色板颜色簇
+ * @param theme ParsedVscodeTheme
+ * @param rules compileTokenRules 的结果
+ * @param defined 已得出颜色的 syntax 字段，这些字段不会被推断
+ */
+export function inferSyntaxColors(theme: ParsedVscodeTheme, rules: TokenRule[], defined: Record<string, string>): Record<string, SyntaxInference> {
+  const inferred: Record<string, SyntaxInference> = {};
+  const keys = [...new Set([...Object.keys(relatedScopes), ...Object.keys(relatedColors), ...Object.keys(paletteHues)])];
+  let clusters: PaletteCluster[] | null = null;
+  // 已使用的颜色 → 使用它的字段；调色板中的颜色只能与色相目标相同的字段共用（如 number 与 constant），
+  // 避免字符串沿用注释的绿色、函数沿用关键字的蓝色
+  const taken = new Map<string, string[]>();
+  const take = (color: RGBA | null, key: string) => {
+    if (!color) return;
+    const hex = toHex({ ...color, a: 1 });
+    taken.set(hex, [...(taken.get(hex) || []), key]);
+  };
+  for (const [key, value] of Object.entries(defined)) take(parseXcodeColor(value), key);
+  take(parseColor(theme.colors['editor.foreground'] || theme.colors.foreground), 'xcode.syntax.plain');
+  const role = (key: string) => paletteHues[key] ?? key;
+  const usableFor = (key: string) => (hex: string) => (taken.get(hex) || []).every(other => role(other) === role(key));
+
+  for (const key of keys.filter(item => !defined[item])) {
+    for (const scope of relatedScopes[key] || []) {
+      const { foreground, fontStyle } = resolveScopeStyle(rules, toScopeStack(scope));
+      const color = foreground?.rule.settings.foreground;
+      if (!foreground || !color || !parseColor(color)) continue;
+      inferred[key] = {
+        color,
+        via: 'scope',
+        from: foreground.selector.text,
+        rules: fontStyle ? [foreground.rule.index, fontStyle.rule.index] : [foreground.rule.index],
+        fontStyle: fontStyle?.rule.settings.fontStyle,
+      };
+      break;
+    }
+    if (inferred[key]) {
+      take(parseColor(inferred[key].color), key);
+      continue;
+    }
+    const colorKey = (relatedColors[key] || []).find(item => parseColor(theme.colors[item]));
+    if (colorKey) {
+      inferred[key] = { color: theme.colors[colorKey], via: 'color', from: colorKey };
+      take(parseColor(theme.colors[colorKey]), key);
+      continue;
+    }
+    clusters = clusters || paletteClusters(theme, rules);
+    const color = key === 'xcode.syntax.comment'
+      ? commentTone(theme, clusters, usableFor(key))
+      : key in paletteHues ? nearestHue(clusters, paletteHues[key], usableFor(key)) : null;
+    if (color) {
+      inferred[key] = { color, via: 'palette', from: color };
+      take(parseColor(color), key);
+    }
+  }
+  return inferred;
+}
@@ -0,0 +1,73 @@
+// 主题外观：识别 VSCode 主题的 type（dark / light / hc / hcLight），缺失、无法识别或与背景亮度不符时按背景亮度推断
+import { parseColor, relativeLuminance } from './color.js';
+
+/** VSCode 的四种主题类型，hc 为高对比度深色，hcLight 为高对比度浅色 */
+export type ThemeAppearance = 'dark' | 'light' | 'hc' | 'hcLight';
+
+// type 字段及扩展 uiTheme 的常见写法
+const typeAliases: Record<string, ThemeAppearance> = {
+  dark: 'dark',
+  'vs-dark': 'dark',
+  light: 'light',
+  vs: 'light',
+  hc: 'hc',
+  hcdark: 'hc',
+  'hc-dark': 'hc',
+  'hc-black': 'hc',
+  highcontrast: 'hc',
+  hclight: 'hcLight',
+  'hc-light': 'hcLight',
+  highcontrastlight: 'hcLight',
+};
+
+/**
+ * 将 type 或 uiTheme 规范化为主题类型
+ * @param type 如 "dark"、"vs"、"hc-black"、"hcLight"
+ * @returns 无法识别时返回 null
+ */
+export function normalizeThemeType(type: unknown): ThemeAppearance | null {
+  if (typeof type !== 'string') return null;
+  return typeAliases[type.trim().toLowerCase()] || null;
+}
+
+// 编辑器背景的深浅，没有可解析的背景色时返回 null
+function backgroundAppearance(colors: Record<string, string>): 'light' | 'dark' | null {
+  const background = parseColor(colors['editor.background'] || colors['background']);
+  if (!background) return null;
+  return relativeLuminance(background) > 0.5 ? 'light' : 'dark';
+}
+
+/**
+ * 按编辑器背景的相对亮度推断深色或浅色，没有背景色时视为深色
+ * @param colors VSCode 主题的 colors
+ */
+export function inferAppearance(colors: Record<string, string>): ThemeAppearance {
+  return backgroundAppearance(colors) || 'dark';
+}
+
+/**
+ * 确定主题外观：优先使用 type；type 缺失或无法识别时按背景推断，
+ * 与背景深浅不符（如 dark 主题配白色背景）时改用背景的深浅，并保留高对比度
+ * @param type 主题 JSON 的 type 字段
+ * @param colors 主题 JSON 的 colors 字段
+ * @returns declared 为与背景不符、未被采用的 type
+ */
+export function detectAppearance(
+  type: unknown,
+  colors: Record<string, string>,
+): { appearance: ThemeAppearance; inferred: boolean; declared?: ThemeAppearance } {
+  const normalized = normalizeThemeType(type);
+  const background = backgroundAppearance(colors);
+  if (!normalized) return { appearance: background || 'dark', inferred: true };
+  if (background && isLightAppearance(normalized) !== (background === 'light')) {
+    const highContrast = normalized === 'hc' || normalized === 'hcLight';
+    const appearance = background === 'light' ? (highContrast ? 'hcLight' : 'light') : (highContrast ? 'hc' : 'dark');
+    return { appearance, inferred: true, declared: normalized };
+  }
+  return { appearance: normalized, inferred: false };
+}
+
+/** 是否为浅色外观 */
+export function isLightAppearance(appearance: ThemeAppearance): boolean {
+  return appearance === 'light' || appearance === 'hcLight';
+}
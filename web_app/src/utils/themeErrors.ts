@@ -0,0 +1,21 @@
+// 读取主题文件时的错误：message 为英文，供 CLI 与 API 直接输出；界面按 code 通过 themeErrors.<code> 翻译
+export type ThemeErrorCode =
+  | 'INVALID_JSONC'
+  | 'INCLUDE_CYCLE'
+  | 'INCLUDE_NOT_OBJECT'
+  | 'MISSING_FILE'
+  | 'VSIX_NO_MANIFEST'
+  | 'VSIX_NO_THEMES'
+  | 'VSIX_THEME_NOT_FOUND';
+
+export class ThemeFileError extends Error {
+  constructor(
+    public readonly code: ThemeErrorCode,
+    message: string,
+    /** 可插入翻译文本的值 */
+    public readonly details: Record<string, string | number> = {},
+  ) {
+    super(message);
+    this.name = 'ThemeFileError';
+  }
+}
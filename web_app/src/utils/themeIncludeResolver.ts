@@ -0,0 +1,156 @@
+// VSCode 主题 include 解析：合并 "include" 引用的基础主题以及以路径形式给出的 tokenColors
+// 合并顺序与 VSCode 一致：先载入被引用的主题，再用当前主题覆盖 colors/semanticTokenColors，tokenColors 追加在后面
+import { parse, ParseError, printParseErrorCode } from 'jsonc-parser';
+import { parseTmThemeTokenColors } from './tmTheme.js';
+import { ThemeFileError } from './themeErrors.js';
+
+export type ThemeJson = Record<string, unknown>;
+
+/**
+ * 读取主题引用的文件，path 为已解析过的路径或 URL
+ */
+export type ThemeFileLoader = (path: string) => Promise<string>;
+
+export class MissingThemeFileError extends ThemeFileError {
+  constructor(public readonly path: string) {
+    super('MISSING_FILE', `File referenced by the theme not found: ${path}`, { path });
+    this.name = 'MissingThemeFileError';
+  }
+}
+
+/**
+ * 按引用方的位置解析相对路径，支持 URL 与普通路径
+ * @param from 引用方的路径或 URL
+ * @param relative include 中写的相对路径
+ */
+export function resolveThemePath(from: string, relative: string): string {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(from)) {
+    return new URL(relative, from).toString();
+  }
+  const parts = from.split('/').slice(0, -1);
+  for (const segment of relative.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') parts.pop();
+    else parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+/**
+ * 解析 JSONC 文本（允许注释与尾逗号）
+ * @param text 文件内容
+ */
+export function parseJsonc(text: string): unknown {
+  const parseErrors: ParseError[] = [];
+  const json = parse(text, parseErrors, { allowTrailingComma: true });
+  if (parseErrors.length > 0) {
+    const { error, offset } = parseErrors[0];
+    throw new ThemeFileError('INVALID_JSONC', `Invalid JSONC: ${printParseErrorCode(error)} at offset ${offset}`, { error: printParseErrorCode(error), offset });
+  }
+  return json;
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+async function loadThemeFile(path: string, load: ThemeFileLoader, seen: Set<string>): Promise<ThemeJson> {
+  if (seen.has(path)) {
+    throw new ThemeFileError('INCLUDE_CYCLE', `Theme include cycle: ${path}`, { path });
+  }
+  const json = parseJsonc(await load(path));
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new ThemeFileError('INCLUDE_NOT_OBJECT', `File referenced by the theme is not a JSON object: ${path}`, { path });
+  }
+  return resolveIncludes(json as ThemeJson, path, load, new Set([...seen, path]));
+}
+
+async function loadTokenColors(path: string, load: ThemeFileLoader, seen: Set<string>): Promise<unknown[]> {
+  if (/\.(tmTheme|plist)$/i.test(path)) {
+    return parseTmThemeTokenColors(await load(path));
+  }
+  const theme = await loadThemeFile(path, load, seen);
+  return Array.isArray(theme.tokenColors) ? theme.tokenColors : [];
+}
+
+async function resolveIncludes(json: ThemeJson, path: string, load: ThemeFileLoader, seen: Set<string>): Promise<ThemeJson> {
+  const { include, ...own } = json;
+  const base: ThemeJson = typeof include === 'string'
+    ? await loadThemeFile(resolveThemePath(path, include), load, seen)
+    : {};
+
+  const tokenColors = Array.isArray(base.tokenColors) ? [...base.tokenColors] : [];
+  if (Array.isArray(own.tokenColors)) {
+    tokenColors.push(...own.tokenColors);
+  } else if (typeof own.tokenColors === 'string') {
+    tokenColors.push(...await loadTokenColors(resolveThemePath(path, own.tokenColors), load, seen));
+  }
+
+  return {
+    ...base,
+    ...own,
+    colors: { ...asObject(base.colors), ...asObject(own.colors) },
+    tokenColors,
+    semanticTokenColors: { ...asObject(base.semanticTokenColors), ...asObject(own.semanticTokenColors) },
+  };
+}
+
+/**
+ * 解析主题的 include 链与 tokenColors 文件引用，返回合并后的主题 JSON
+ * @param json 已解析的主题 JSON
+ * @param path 主题自身的路径或 URL，用于解析相对路径
+ * @param load 读取被引用文件的方法，找不到文件时应抛出 MissingThemeFileError
+ */
+export async function resolveThemeIncludes(json: ThemeJson, path: string, load: ThemeFileLoader): Promise<ThemeJson> {
+  return resolveIncludes(json, path, load, new Set([path]));
+}
+
+/** 判断主题是否引用了其他文件 */
+export function hasThemeReferences(json: ThemeJson): boolean {
+  return typeof json.include === 'string' || typeof json.tokenColors === 'string';
+}
+
+/**
+ * 基于内存中的文件表创建 loader（用于上传的文件夹或压缩包）
+ * @param files 路径 → 文件内容
+ */
+export function createMapLoader(files: Record<string, string>): ThemeFileLoader {
+  return async (path: string) => {
+    if (path in files) return files[path];
+    throw new MissingThemeFileError(path);
+  };
+}
+
+/**
+ * 在一组文件中找出所有主题入口：含有主题字段的 JSON 及 .tmTheme，且没有被其他文件 include 或作为 tokenColors 引用
+ * @param files 路径 → 文件内容
+ * @returns 入口路径，按路径排序
+ */
+export function findThemeEntries(files: Record<string, string>): string[] {
+  const themes: Record<string, ThemeJson> = {};
+  const tmThemes = Object.keys(files).filter(path => /\.tmTheme$/i.test(path));
+  for (const [path, text] of Object.entries(files)) {
+    if (!/\.jsonc?$/i.test(path) || /(^|\/)package(\.nls[\w.-]*)?\.json$/i.test(path)) continue;
+    try {
+      const json = asObject(parseJsonc(text));
+      if ('colors' in json || 'tokenColors' in json || 'include' in json) themes[path] = json;
+    } catch {
+      // 忽略无法解析的文件
+    }
+  }
+  const referenced = new Set<string>();
+  for (const [path, json] of Object.entries(themes)) {
+    for (const ref of [json.include, json.tokenColors]) {
+      if (typeof ref === 'string') referenced.add(resolveThemePath(path, ref));
+    }
+  }
+  return [...Object.keys(themes), ...tmThemes].filter(path => !referenced.has(path)).sort();
+}
+
+/**
+ * 在一组文件中找出第一个主题入口
+ * @returns 入口路径，找不到时返回 null
+ */
+export function findThemeEntry(files: Record<string, string>): string | null {
+  return findThemeEntries(files)[0] ?? null;
+}
@@ -0,0 +1,174 @@
+// 整体颜色变换：在解析与生成之间统一调整主题中的所有颜色（亮度、对比度、饱和度、色相、背景、明暗反转）
+// 调整在 OKLCH 中进行，保证亮度变化在感知上均匀、色相不漂移
+import { ParsedVscodeTheme } from './vscodeThemeParser.js';
+import { isLightAppearance, ThemeAppearance } from './themeAppearance.js';
+import { oklchToRgb, parseColor, RGBA, rgbToOklch, toHex } from './color.js';
+import { isPlistDict, PlistDict, plistNumber, PlistValue } from './plist.js';
+
+export interface ThemeTransforms {
+  /** 亮度 -100~100：正值向白色、负值向黑色按比例移动 */
+  brightness?: number;
+  /** 对比度 -100~100：以中间亮度为中心拉伸或压缩 */
+  contrast?: number;
+  /** 饱和度 -100~100：按比例缩放色度，-100 为灰度 */
+  saturation?: number;
+  /** 色相旋转角度 -180~180 */
+  hueRotate?: number;
+  /** 替换编辑器背景，原背景色在其他颜色中出现时一并替换 */
+  background?: string;
+  /** 反转明暗，仅当主题外观与目标不同时生效 */
+  invert?: 'light' | 'dark';
+}
+
+/** 各数值变换的取值范围 */
+export const themeTransformRanges = {
+  brightness: [-100, 100],
+  contrast: [-100, 100],
+  saturation: [-100, 100],
+  hueRotate: [-180, 180],
+} as const;
+
+type NumericTransform = keyof typeof themeTransformRanges;
+
+const numericTransforms = Object.keys(themeTransformRanges) as NumericTransform[];
+
+/**
+ * 只保留有效的变换：数值限制在范围内、0 视为未设置，背景须为可解析的颜色
+ * @param value 来自界面、文件或请求的变换设置
+ */
+export function sanitizeThemeTransforms(value: unknown): ThemeTransforms {
+  const transforms: ThemeTransforms = {};
+  if (!value || typeof value !== 'object') return transforms;
+  const input = value as Record<string, unknown>;
+  for (const key of numericTransforms) {
+    const number = Number(input[key]);
+    if (input[key] === undefined || input[key] === '' || !Number.isFinite(number) || number === 0) continue;
+    const [min, max] = themeTransformRanges[key];
+    transforms[key] = Math.min(max, Math.max(min, number));
+  }
+  if (typeof input.background === 'string' && parseColor(input.background)) transforms.background = input.background;
+  if (input.invert === 'light' || input.invert === 'dark') transforms.invert = input.invert;
+  return transforms;
+}
+
+/** 是否没有任何变换 */
+export function isIdentityTransforms(transforms: ThemeTransforms): boolean {
+  return Object.keys(sanitizeThemeTransforms(transforms)).length === 0;
+}
+
+// 反转后的主题类型，高对比度主题保持高对比度
+function invertedAppearance(appearance: ThemeAppearance, target: 'light' | 'dark'): ThemeAppearance {
+  const highContrast = appearance === 'hc' || appearance === 'hcLight';
+  if (target === 'light') return highContrast ? 'hcLight' : 'light';
+  return highContrast ? 'hc' : 'dark';
+}
+
+// 对单个颜色依次应用反转、亮度、对比度、饱和度与色相，保留透明度
+function transformRgba(color: RGBA, transforms: ThemeTransforms, invert: boolean): RGBA {
+  const lch = rgbToOklch(color);
+  let l = invert ? 1 - lch.l : lch.l;
+  const brightness = (transforms.brightness ?? 0) / 100;
+  l += brightness * (brightness > 0 ? 1 - l : l);
+  l = 0.5 + (l - 0.5) * (1 + (transforms.contrast ?? 0) / 100);
+  const c = lch.c * (1 + (transforms.saturation ?? 0) / 100);
+  const h = (lch.h + (transforms.hueRotate ?? 0) + 360) % 360;
+  return { ...oklchToRgb({ l: Math.min(1, Math.max(0, l)), c: Math.max(0, c), h }), a: color.a };
+}
+
+/**
+ * 变换单个 CSS 颜色，结果为 #RRGGBB 或 #RRGGBBAA；无法解析的值原样返回
+ * 不处理背景替换，背景替换需要整个主题的信息
+ * @param input CSS 颜色
+ * @param transforms 变换设置
+ * @param invert 是否反转明暗
+ */
+export function transformColor(input: string, transforms: ThemeTransforms, invert = false): string {
+  const color = parseColor(input);
+  return color ? toHex(transformRgba(color, transforms, invert)) : input;
+}
+
+// 变换 tokenColors / semanticTokenColors 的 settings 中的 foreground 与 background（字符串形式的样式为前景色）
+function transformStyle(style: unknown, map: (color: string) => string, mapBackground: (color: string) => string): unknown {
+  if (typeof style === 'string') return map(style);
+  if (!style || typeof style !== 'object' || Array.isArray(style)) return style;
+  const result = { ...(style as Record<string, unknown>) };
+  if (typeof result.foreground === 'string') result.foreground = map(result.foreground);
+  if (typeof result.background === 'string') result.background = mapBackground(result.background);
+  return result;
+}
+
+/**
+ * 将变换应用到 colors、tokenColors 与 semanticTokenColors 中的所有颜色，不修改原主题
+ * 应用的变换记录在结果的 transforms 中，生成 Xcode 主题时会一并写入
+ * @param theme ParsedVscodeTheme
+ * @param transforms 变换设置
+ */
+export function applyThemeTransforms(theme: ParsedVscodeTheme, transforms: ThemeTransforms): ParsedVscodeTheme {
+  const applied = sanitizeThemeTransforms(transforms);
+  if (Object.keys(applied).length === 0) return theme;
+  const invert = !!applied.invert && isLightAppearance(theme.type) !== (applied.invert === 'light');
+  const map = (color: string) => transformColor(color, applied, invert);
+
+  const colors: Record<string, string> = {};
+  for (const [key, value] of Object.entries(theme.colors)) {
+    colors[key] = typeof value === 'string' ? map(value) : value;
+  }
+  // 替换背景：与原编辑器背景（变换后）同色的颜色，如面板、终端、行号栏以及 token 的背景，改为新背景并保留各自的透明度
+  let replaceBackground = (color: string) => color;
+  const background = applied.background ? parseColor(applied.background) : null;
+  if (background) {
+    const previous = parseColor(colors['editor.background']);
+    const same = (color: RGBA | null) => !!color && !!previous && toHex({ ...color, a: 1 }) === toHex({ ...previous, a: 1 });
+    replaceBackground = value => {
+      const color = parseColor(value);
+      return color && same(color) ? toHex({ ...background, a: color.a * background.a }) : value;
+    };
+    for (const [key, value] of Object.entries(colors)) {
+      colors[key] = replaceBackground(value);
+    }
+    colors['editor.background'] = toHex(background);
+  }
+  const mapBackground = (color: string) => replaceBackground(map(color));
+
+  const tokenColors = theme.tokenColors.map(rule =>
+    rule && typeof rule === 'object' && rule.settings ? { ...rule, settings: transformStyle(rule.settings, map, mapBackground) } : rule);
+  const semanticTokenColors: Record<string, unknown> = {};
+  for (const [selector, style] of Object.entries(theme.semanticTokenColors)) {
+    semanticTokenColors[selector] = transformStyle(style, map, mapBackground);
+  }
+
+  return {
+    ...theme,
+    type: invert ? invertedAppearance(theme.type, applied.invert as 'light' | 'dark') : theme.type,
+    typeInferred: invert ? false : theme.typeInferred,
+    declaredType: invert ? undefined : theme.declaredType,
+    colors,
+    tokenColors,
+    semanticTokenColors,
+    transforms: applied,
+  };
+}
+
+/**
+ * 转为 plist 字典，用于写入导出的 .xccolortheme（VS2XTransforms 字段）
+ * @param transforms 变换设置
+ */
+export function transformsToPlist(transforms: ThemeTransforms): PlistDict {
+  const dict: PlistDict = {};
+  for (const [key, value] of Object.entries(sanitizeThemeTransforms(transforms))) {
+    if (value !== undefined) dict[key] = value;
+  }
+  return dict;
+}
+
+/**
+ * 读取 .xccolortheme 中保存的变换设置，没有时返回 null
+ * @param value VS2XTransforms 字段的值
+ */
+export function transformsFromPlist(value: PlistValue | undefined): ThemeTransforms | null {
+  if (!isPlistDict(value)) return null;
+  const input: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) input[key] = plistNumber(item) ?? item;
+  const transforms = sanitizeThemeTransforms(input);
+  return Object.keys(transforms).length > 0 ? transforms : null;
+}
@@ -0,0 +1,72 @@
+// TextMate/Sublime .tmTheme 主题读取：plist 中的 settings 数组即 VSCode 的 tokenColors 格式
+import { isPlistDict, parsePlist, PlistValue } from './plist.js';
+import { parseVscodeTheme, ParsedVscodeTheme } from './vscodeThemeParser.js';
+
+export interface TmThemeRule {
+  name?: string;
+  scope?: string;
+  settings: Record<string, string>;
+}
+
+/**
+ * 将 .tmTheme 的 settings 数组转换为 tokenColors，没有 scope 的全局设置也会保留
+ * @param xml .tmTheme 文件内容
+ */
+export function parseTmThemeTokenColors(xml: string): TmThemeRule[] {
+  return readTmTheme(xml).rules;
+}
+
+// tmTheme 全局设置 → VSCode colors 字段
+const globalColorKeys: Record<string, string> = {
+  background: 'editor.background',
+  foreground: 'editor.foreground',
+  caret: 'editorCursor.foreground',
+  selection: 'editor.selectionBackground',
+  selectionForeground: 'editor.selectionForeground',
+  inactiveSelection: 'editor.inactiveSelectionBackground',
+  lineHighlight: 'editor.lineHighlightBackground',
+  invisibles: 'editorWhitespace.foreground',
+  findHighlight: 'editor.findMatchHighlightBackground',
+  guide: 'editorIndentGuide.background',
+  gutter: 'editorGutter.background',
+  gutterForeground: 'editorLineNumber.foreground',
+};
+
+/**
+ * 将 .tmTheme 解析为 ParsedVscodeTheme：没有 scope 的全局设置映射为 colors，其余规则作为 tokenColors，
+ * 外观按背景亮度推断
+ * @param xml .tmTheme 文件内容
+ * @param fallbackName 文件中没有 name 时使用的名称
+ */
+export function parseTmTheme(xml: string, fallbackName = 'Untitled Theme'): ParsedVscodeTheme {
+  const { name, rules } = readTmTheme(xml);
+  const colors: Record<string, string> = {};
+  for (const rule of rules.filter(rule => !rule.scope)) {
+    for (const [key, value] of Object.entries(rule.settings)) {
+      if (globalColorKeys[key]) colors[globalColorKeys[key]] = value;
+    }
+  }
+  return parseVscodeTheme({ name: name || fallbackName, colors, tokenColors: rules.filter(rule => rule.scope) });
+}
+
+function readTmTheme(xml: string): { name?: string; rules: TmThemeRule[] } {
+  const root = parsePlist(xml);
+  const settings: PlistValue | undefined = isPlistDict(root) ? root.settings : undefined;
+  if (!Array.isArray(settings)) {
+    throw new Error('无效的 tmTheme 文件：缺少 settings 数组');
+  }
+  const rules: TmThemeRule[] = [];
+  for (const item of settings) {
+    if (!isPlistDict(item) || !isPlistDict(item.settings)) continue;
+    const ruleSettings: Record<string, string> = {};
+    for (const [k, v] of Object.entries(item.settings)) {
+      if (typeof v === 'string') ruleSettings[k] = v;
+    }
+    rules.push({
+      name: typeof item.name === 'string' ? item.name : undefined,
+      scope: typeof item.scope === 'string' ? item.scope : undefined,
+      settings: ruleSettings,
+    });
+  }
+  return { name: isPlistDict(root) && typeof root.name === 'string' ? root.name : undefined, rules };
+}
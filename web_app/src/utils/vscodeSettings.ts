@@ -0,0 +1,120 @@
+// VSCode 用户设置（settings.json）：将颜色自定义叠加到主题上，并读取编辑器字体
+// 参考：https://code.visualstudio.com/docs/getstarted/themes#_customize-a-color-theme
+import { ParsedVscodeTheme } from './vscodeThemeParser.js';
+import { parseJsonc } from './themeIncludeResolver.js';
+import { defaultXcodeFont, XcodeFont, xcodeFontFromCss } from './xcodeFonts.js';
+
+export type VscodeSettings = Record<string, unknown>;
+
+// tokenColorCustomizations 简写字段对应的 scope，与 VS Code 一致
+const tokenGroupScopes: Record<string, string[]> = {
+  comments: ['comment', 'punctuation.definition.comment'],
+  strings: ['string', 'meta.embedded.assembly'],
+  keywords: ['keyword - keyword.operator', 'keyword.control', 'storage', 'storage.type'],
+  numbers: ['constant.numeric'],
+  types: ['entity.name.type', 'entity.name.class', 'support.type', 'support.class'],
+  functions: ['entity.name.function', 'support.function'],
+  variables: ['variable', 'entity.name.variable'],
+};
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * 解析 settings.json（JSONC）
+ * @param text 文件内容
+ */
+export function parseVscodeSettings(text: string): VscodeSettings {
+  const json = parseJsonc(text);
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error('settings.json must contain a JSON object');
+  }
+  return json as VscodeSettings;
+}
+
+// 主题作用域键，如 "[One Dark Pro]"、"[Monokai][Dracula]"、"[*Dark*]"
+function matchesThemeScope(key: string, themeName: string): boolean {
+  const names = key.match(/\[([^\]]+)\]/g);
+  if (!names || names.join('') !== key.trim()) return false;
+  return names.some(name => {
+    const pattern = name.slice(1, -1).trim().replace(/[.+?^${}()|\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${pattern}$`, 'i').test(themeName);
+  });
+}
+
+/**
+ * 按 VS Code 的优先级拆出通用部分与主题作用域部分：通用设置在前，匹配当前主题的作用域设置在后（后者优先）
+ * @param value 如 workbench.colorCustomizations 的值
+ * @param themeName 主题名称
+ */
+function scopedLayers(value: unknown, themeName: string): Record<string, unknown>[] {
+  const general: Record<string, unknown> = {};
+  const scoped: Record<string, unknown>[] = [];
+  for (const [key, entry] of Object.entries(asObject(value))) {
+    if (key.startsWith('[')) {
+      if (matchesThemeScope(key, themeName)) scoped.push(asObject(entry));
+    } else {
+      general[key] = entry;
+    }
+  }
+  return [general, ...scoped];
+}
+
+// tokenColorCustomizations 的一层：简写字段在前，textMateRules 在后
+function tokenRulesOf(layer: Record<string, unknown>): unknown[] {
+  const rules: unknown[] = [];
+  for (const [group, scopes] of Object.entries(tokenGroupScopes)) {
+    const value = layer[group];
+    if (typeof value === 'string') rules.push({ scope: scopes, settings: { foreground: value } });
+    else if (value && typeof value === 'object') rules.push({ scope: scopes, settings: value });
+  }
+  if (Array.isArray(layer.textMateRules)) rules.push(...layer.textMateRules);
+  return rules;
+}
+
+/**
+ * 将 settings.json 中的颜色自定义叠加到主题上：workbench.colorCustomizations、
+ * editor.tokenColorCustomizations、editor.semanticTokenColorCustomizations 及 editor.semanticHighlighting.enabled
+ * @param theme ParsedVscodeTheme
+ * @param settings parseVscodeSettings 的结果
+ */
+export function applyVscodeSettings(theme: ParsedVscodeTheme, settings: VscodeSettings): ParsedVscodeTheme {
+  const colors = { ...theme.colors };
+  for (const layer of scopedLayers(settings['workbench.colorCustomizations'], theme.name)) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (typeof value === 'string') colors[key] = value;
+    }
+  }
+
+  // 自定义规则追加在主题规则之后，同等具体度时覆盖主题
+  const tokenColors = [...theme.tokenColors];
+  let semanticHighlighting = theme.semanticHighlighting;
+  for (const layer of scopedLayers(settings['editor.tokenColorCustomizations'], theme.name)) {
+    tokenColors.push(...tokenRulesOf(layer));
+    if (typeof layer.semanticHighlighting === 'boolean') semanticHighlighting = layer.semanticHighlighting;
+  }
+
+  const semanticTokenColors = { ...theme.semanticTokenColors };
+  for (const layer of scopedLayers(settings['editor.semanticTokenColorCustomizations'], theme.name)) {
+    if (typeof layer.enabled === 'boolean') semanticHighlighting = layer.enabled;
+    Object.assign(semanticTokenColors, asObject(layer.rules));
+  }
+  const enabled = settings['editor.semanticHighlighting.enabled'];
+  if (typeof enabled === 'boolean') semanticHighlighting = enabled;
+
+  return { ...theme, colors, tokenColors, semanticHighlighting, semanticTokenColors };
+}
+
+/**
+ * 从 editor.fontFamily 与 editor.fontSize 得到 Xcode 字体
+ * @param settings parseVscodeSettings 的结果
+ * @returns 只设置了字号时使用默认字体族；字体族与字号都没有可用的值时返回 null
+ */
+export function fontFromSettings(settings: VscodeSettings): XcodeFont | null {
+  const family = settings['editor.fontFamily'];
+  const fontSize = Number(settings['editor.fontSize']);
+  const size = Number.isFinite(fontSize) && fontSize > 0 ? fontSize : undefined;
+  const font = typeof family === 'string' ? xcodeFontFromCss(family, size) : null;
+  return font || (size ? { ...defaultXcodeFont, size } : null);
+}
@@ -0,0 +1,122 @@
+// VSCode 主题生成器：将 Xcode 主题中间结构转换为 VSCode 主题 JSON（colors + tokenColors）
+import { VscodeTheme } from './vscodeThemeParser.js';
+import { ParsedXcodeTheme } from './xcodeThemeParser.js';
+import { relativeLuminance, RGBA, toHex } from './color.js';
+import { ParsedXcodeFont } from './xcodeFonts.js';
+
+// Xcode 顶层颜色字段 → 需要填充的 VSCode workbench 颜色
+const colorTargets: Record<string, string[]> = {
+  DVTSourceTextBackground: ['editor.background', 'editorGutter.background'],
+  DVTSourceTextSelectionColor: ['editor.selectionBackground'],
+  DVTSourceTextCurrentLineHighlightColor: ['editor.lineHighlightBackground'],
+  DVTSourceTextInsertionPointColor: ['editorCursor.foreground'],
+  DVTSourceTextInvisiblesColor: ['editorWhitespace.foreground'],
+  DVTDebuggerInstructionPointerColor: ['debugIcon.breakpointCurrentStackframeForeground'],
+  DVTConsoleTextBackgroundColor: ['terminal.background', 'panel.background'],
+  DVTConsoleExectuableOutputTextColor: ['terminal.foreground'],
+  DVTConsoleTextSelectionColor: ['terminal.selectionBackground'],
+  DVTConsoleTextInsertionPointColor: ['terminalCursor.foreground'],
+  DVTMarkupTextBackgroundColor: ['editorHoverWidget.background'],
+  DVTMarkupTextBorderColor: ['editorHoverWidget.border'],
+  DVTMarkupTextNormalColor: ['editorHoverWidget.foreground'],
+  DVTMarkupTextLinkColor: ['textLink.foreground'],
+  DVTMarkupTextInlineCodeColor: ['textPreformat.foreground'],
+  DVTScrollbarMarkerErrorColor: ['editorOverviewRuler.errorForeground', 'editorError.foreground'],
+  DVTScrollbarMarkerWarningColor: ['editorOverviewRuler.warningForeground', 'editorWarning.foreground'],
+  DVTScrollbarMarkerDiffColor: ['editorOverviewRuler.modifiedForeground'],
+  DVTScrollbarMarkerSourceControlColor: ['editorOverviewRuler.addedForeground'],
+  DVTScrollbarMarkerBreakpointColor: ['debugIcon.breakpointForeground'],
+};
+
+// Xcode syntax 字段 → TextMate scope（按通用到具体排列，后面的规则在 VSCode 中优先级更高）
+const scopeTargets: Array<[string, string[]]> = [
+  ['xcode.syntax.comment', ['comment', 'punctuation.definition.comment']],
+  ['xcode.syntax.comment.doc', ['comment.block.documentation', 'comment.line.triple-slash.documentation']],
+  ['xcode.syntax.comment.doc.keyword', ['keyword.other.documentation', 'comment.block.documentation keyword']],
+  ['xcode.syntax.string', ['string']],
+  ['xcode.syntax.character', ['constant.character', 'string.quoted.single.c']],
+  ['xcode.syntax.number', ['constant.numeric']],
+  ['xcode.syntax.keyword', ['keyword', 'storage.type', 'storage.modifier']],
+  ['xcode.syntax.preprocessor', ['meta.preprocessor', 'keyword.control.directive', 'punctuation.definition.directive']],
+  ['xcode.syntax.url', ['markup.underline.link', 'string.other.link']],
+  ['xcode.syntax.attribute', ['storage.modifier.attribute', 'entity.other.attribute-name']],
+  ['xcode.syntax.regex', ['string.regexp']],
+  ['xcode.syntax.identifier.variable', ['variable', 'variable.other']],
+  ['xcode.syntax.identifier.variable.system', ['support.variable', 'variable.language']],
+  ['xcode.syntax.identifier.constant', ['constant.other', 'variable.other.constant', 'variable.other.enummember']],
+  ['xcode.syntax.identifier.constant.system', ['support.constant', 'constant.language']],
+  ['xcode.syntax.identifier.function', ['entity.name.function', 'support.function.any-method', 'meta.function-call']],
+  ['xcode.syntax.identifier.function.system', ['support.function']],
+  ['xcode.syntax.identifier.type', ['entity.name.type', 'meta.type-name']],
+  ['xcode.syntax.identifier.type.system', ['support.type']],
+  ['xcode.syntax.identifier.class', ['entity.name.type.class']],
+  ['xcode.syntax.identifier.class.system', ['support.class']],
+  ['xcode.syntax.identifier.macro', ['entity.name.function.preprocessor', 'meta.preprocessor.macro']],
+  ['xcode.syntax.declaration.type', ['meta.definition.type entity.name.type', 'meta.class entity.name.type']],
+  ['xcode.syntax.declaration.other', ['meta.definition.function entity.name.function', 'meta.function entity.name.function']],
+];
+
+// Xcode syntax 字段 → 语义 token 选择器
+const semanticTargets: Record<string, string[]> = {
+  'xcode.syntax.identifier.class': ['class'],
+  'xcode.syntax.identifier.class.system': ['class.defaultLibrary'],
+  'xcode.syntax.identifier.type': ['struct', 'enum', 'interface', 'typeParameter', 'type'],
+  'xcode.syntax.identifier.type.system': ['struct.defaultLibrary', 'enum.defaultLibrary', 'type.defaultLibrary'],
+  'xcode.syntax.identifier.function': ['function', 'method'],
+  'xcode.syntax.identifier.function.system': ['function.defaultLibrary', 'method.defaultLibrary'],
+  'xcode.syntax.identifier.variable': ['property', 'variable'],
+  'xcode.syntax.identifier.constant': ['enumMember', 'variable.readonly'],
+  'xcode.syntax.identifier.macro': ['macro'],
+  'xcode.syntax.declaration.type': ['class.declaration', 'struct.declaration', 'enum.declaration'],
+  'xcode.syntax.declaration.other': ['function.declaration', 'method.declaration'],
+};
+
+function fontStyleOf(font: ParsedXcodeFont | undefined): string | undefined {
+  if (!font) return undefined;
+  return [font.bold && 'bold', font.italic && 'italic'].filter(Boolean).join(' ');
+}
+
+/**
+ * 由 Xcode 主题中间结构生成 VSCode 主题 JSON
+ * @param theme parseXcodeTheme 的结果
+ */
+export function emitVscodeTheme(theme: ParsedXcodeTheme): VscodeTheme {
+  const colors: Record<string, string> = {};
+  for (const [xcKey, vsKeys] of Object.entries(colorTargets)) {
+    const color = theme.colors[xcKey];
+    if (!color) continue;
+    for (const vsKey of vsKeys) colors[vsKey] = toHex(color);
+  }
+  const plain = theme.syntaxColors['xcode.syntax.plain'];
+  if (plain) {
+    colors['editor.foreground'] = toHex(plain);
+    colors['foreground'] = toHex(plain);
+  }
+
+  const tokenColors: VscodeTheme['tokenColors'] = [];
+  for (const [xcKey, scopes] of scopeTargets) {
+    const color: RGBA | undefined = theme.syntaxColors[xcKey];
+    if (!color) continue;
+    const settings: Record<string, string> = { foreground: toHex(color) };
+    const fontStyle = fontStyleOf(theme.syntaxFonts[xcKey]);
+    if (fontStyle !== undefined) settings.fontStyle = fontStyle;
+    tokenColors.push({ name: xcKey, scope: scopes, settings });
+  }
+
+  const semanticTokenColors: Record<string, string> = {};
+  for (const [xcKey, selectors] of Object.entries(semanticTargets)) {
+    const color = theme.syntaxColors[xcKey];
+    if (!color) continue;
+    for (const selector of selectors) semanticTokenColors[selector] = toHex(color);
+  }
+
+  const background = theme.colors.DVTSourceTextBackground;
+  return {
+    name: theme.name,
+    type: background && relativeLuminance(background) > 0.5 ? 'light' : 'dark',
+    colors,
+    tokenColors,
+    semanticHighlighting: Object.keys(semanticTokenColors).length > 0,
+    semanticTokenColors,
+  };
+}
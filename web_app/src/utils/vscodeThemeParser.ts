@@ -1,5 +1,7 @@
 // VSCode 主题解析器，将 VSCode 主题 JSON 解析为通用数据结构
 // 参考官方 VSCode 主题格式：https://code.visualstudio.com/api/references/theme-color
+import { detectAppearance, ThemeAppearance } from './themeAppearance.js';
+import { ThemeTransforms } from './themeTransforms.js';
 
 export interface VscodeTheme {
   name: string;
@@ -12,11 +14,18 @@ export interface VscodeTheme {
 
 export interface ParsedVscodeTheme {
   name: string;
-  type: 'dark' | 'light' | string;
+  /** 规范化后的主题类型 */
+  type: ThemeAppearance;
+  /** type 缺失、无法识别或与背景不符，由背景亮度推断 */
+  typeInferred?: boolean;
+  /** 与背景亮度不符、未被采用的 type */
+  declaredType?: ThemeAppearance;
   colors: Record<string, string>;
   tokenColors: Array<any>;
   semanticHighlighting: boolean;
   semanticTokenColors: Record<string, any>;
+  /** 已应用的整体颜色变换，生成 Xcode 主题时记录在 VS2XTransforms 中 */
+  transforms?: ThemeTransforms;
 }
 
 /**
@@ -30,10 +39,14 @@ export function parseVscodeTheme(json: any): ParsedVscodeTheme {
   if (!json || !json.colors) {
     throw new Error('无效的 VSCode 主题文件：缺少 colors 字段');
   }
+  const colors = json.colors || {};
+  const { appearance, inferred, declared } = detectAppearance(json.type, colors);
   return {
     name: json.name || 'Untitled Theme',
-    type: json.type || 'dark',
-    colors: json.colors || {},
+    type: appearance,
+    typeInferred: inferred,
+    declaredType: declared,
+    colors,
     tokenColors: json.tokenColors || [],
     semanticHighlighting: json.semanticHighlighting === true,
     semanticTokenColors: json.semanticTokenColors || {},
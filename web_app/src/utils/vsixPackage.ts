@@ -0,0 +1,127 @@
+// VSCode 扩展包（.vsix）读取：列出 extension/package.json 中 contributes.themes 贡献的主题并逐个解析
+// 参考：https://code.visualstudio.com/api/references/contribution-points#contributes.themes
+import { readZipTextFiles } from './archive.js';
+import { createMapLoader, parseJsonc, resolveThemeIncludes, resolveThemePath, ThemeJson } from './themeIncludeResolver.js';
+import { parseVscodeTheme, ParsedVscodeTheme } from './vscodeThemeParser.js';
+import { normalizeThemeType } from './themeAppearance.js';
+import { ThemeFileError } from './themeErrors.js';
+
+export interface VsixTheme {
+  /** 显示名称（已处理 package.nls.json 本地化占位符） */
+  label: string;
+  /** vs、vs-dark、hc-black 或 hc-light */
+  uiTheme: string;
+  /** 主题文件在压缩包内的路径 */
+  path: string;
+}
+
+export interface VsixPackage {
+  /** publisher.name */
+  id: string;
+  displayName: string;
+  version: string;
+  themes: VsixTheme[];
+  /** 压缩包内的主题相关文本文件 */
+  files: Record<string, string>;
+}
+
+function localize(value: unknown, nls: Record<string, unknown>): string {
+  if (typeof value !== 'string') return '';
+  const match = value.match(/^%(.+)%$/);
+  if (!match) return value;
+  const entry = nls[match[1]];
+  // package.nls.json 的值可能是字符串或 { message, comment }
+  if (typeof entry === 'string') return entry;
+  if (entry && typeof entry === 'object' && typeof (entry as { message?: unknown }).message === 'string') {
+    return (entry as { message: string }).message;
+  }
+  return match[1];
+}
+
+/**
+ * 解析 .vsix 扩展包中的文本文件
+ * @param files readZipTextFiles 的结果
+ */
+export function parseVsixFiles(files: Record<string, string>): VsixPackage {
+  const manifestText = files['extension/package.json'];
+  if (!manifestText) {
+    throw new ThemeFileError('VSIX_NO_MANIFEST', 'Invalid VSIX file: extension/package.json is missing');
+  }
+  const manifest = parseJsonc(manifestText) as Record<string, unknown>;
+  const nls = files['extension/package.nls.json'] ? parseJsonc(files['extension/package.nls.json']) as Record<string, unknown> : {};
+  const contributes = (manifest.contributes || {}) as { themes?: unknown };
+  const themes: VsixTheme[] = [];
+  for (const item of Array.isArray(contributes.themes) ? contributes.themes : []) {
+    if (!item || typeof item.path !== 'string') continue;
+    const path = resolveThemePath('extension/package.json', item.path);
+    themes.push({
+      label: localize(item.label, nls) || localize(item.id, nls) || path.substring(path.lastIndexOf('/') + 1),
+      uiTheme: typeof item.uiTheme === 'string' ? item.uiTheme : 'vs-dark',
+      path,
+    });
+  }
+  if (themes.length === 0) {
+    throw new ThemeFileError('VSIX_NO_THEMES', 'The extension does not contribute any color themes');
+  }
+  const name = typeof manifest.name === 'string' ? manifest.name : 'extension';
+  return {
+    id: typeof manifest.publisher === 'string' ? `${manifest.publisher}.${name}` : name,
+    displayName: localize(manifest.displayName, nls) || name,
+    version: typeof manifest.version === 'string' ? manifest.version : '',
+    themes,
+    files,
+  };
+}
+
+/**
+ * 读取 .vsix 文件
+ * @param data 扩展包内容
+ */
+export function readVsix(data: Uint8Array): VsixPackage {
+  return parseVsixFiles(readZipTextFiles(data));
+}
+
+/**
+ * 按 label 或包内路径查找主题（不区分大小写）
+ * @param pkg readVsix 的结果
+ * @param query 主题 label 或路径
+ */
+export function findVsixTheme(pkg: VsixPackage, query: string): VsixTheme | undefined {
+  const q = query.trim().toLowerCase();
+  return pkg.themes.find(theme => theme.label.toLowerCase() === q)
+    || pkg.themes.find(theme => theme.path.toLowerCase() === q || theme.path.toLowerCase() === `extension/${q.replace(/^\.?\//, '')}`);
+}
+
+/**
+ * 解析扩展 ID（publisher.extension）
+ * @param input 用户输入
+ * @returns 无法识别时返回 null
+ */
+export function parseExtensionId(input: string): { publisher: string; name: string } | null {
+  const match = input.trim().match(/^([a-z0-9][\w-]*)\.([a-z0-9][\w-]*)$/i);
+  return match ? { publisher: match[1], name: match[2] } : null;
+}
+
+/**
+ * 合并扩展包中某个主题的 include，得到完整的主题 JSON；name 取 label，缺少 type 时按 uiTheme 确定
+ * @param pkg readVsix 的结果
+ * @param theme 要解析的主题
+ */
+export async function resolveVsixThemeJson(pkg: VsixPackage, theme: VsixTheme): Promise<ThemeJson> {
+  const text = pkg.files[theme.path];
+  if (text === undefined) {
+    throw new ThemeFileError('VSIX_THEME_NOT_FOUND', `Theme file not found in the extension package: ${theme.path}`, { path: theme.path });
+  }
+  const json = await resolveThemeIncludes(parseJsonc(text) as ThemeJson, theme.path, createMapLoader(pkg.files));
+  // type 无法识别时改用 uiTheme，两者都没有时交给解析器按背景推断
+  return { ...json, name: theme.label, type: normalizeThemeType(json.type) || normalizeThemeType(theme.uiTheme) || json.type };
+}
+
+/**
+ * 解析扩展包中的某个主题，include 在包内解析
+ * @param pkg readVsix 的结果
+ * @param theme 要解析的主题
+ */
+export async function loadVsixTheme(pkg: VsixPackage, theme: VsixTheme): Promise<ParsedVscodeTheme> {
+  return parseVscodeTheme(await resolveVsixThemeJson(pkg, theme));
+}
@@ -0,0 +1,149 @@
+// Xcode 字体描述：Xcode 主题中字体以 "PostScript 名称 - 字号" 的字符串保存，如 "SFMono-Bold - 12.0"
+
+export interface XcodeFont {
+  /** PostScript 字体族前缀，如 SFMono、Menlo */
+  family: string;
+  size: number;
+}
+
+export interface FontStyle {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+}
+
+export const defaultXcodeFont: XcodeFont = { family: 'SFMono', size: 12 };
+
+export interface XcodeFontFamily {
+  /** 显示名称，同时也是 CSS 中的字体族名 */
+  label: string;
+  /** PostScript 变体后缀：常规、粗体、斜体、粗斜体；空字符串表示不加后缀，没有斜体的字体沿用常规/粗体 */
+  variants: [regular: string, bold: string, italic: string, boldItalic: string];
+}
+
+// 常见等宽字体的 PostScript 字体族及变体命名，键为 XcodeFont.family
+export const xcodeFontFamilies: Record<string, XcodeFontFamily> = {
+  SFMono: { label: 'SF Mono', variants: ['Regular', 'Bold', 'RegularItalic', 'BoldItalic'] },
+  Menlo: { label: 'Menlo', variants: ['Regular', 'Bold', 'Italic', 'BoldItalic'] },
+  Monaco: { label: 'Monaco', variants: ['', 'Bold', 'Italic', 'BoldItalic'] },
+  JetBrainsMono: { label: 'JetBrains Mono', variants: ['Regular', 'Bold', 'Italic', 'BoldItalic'] },
+  FiraCode: { label: 'Fira Code', variants: ['Regular', 'Bold', 'Regular', 'Bold'] },
+  SourceCodePro: { label: 'Source Code Pro', variants: ['Regular', 'Bold', 'It', 'BoldIt'] },
+  CascadiaCode: { label: 'Cascadia Code', variants: ['Regular', 'Bold', 'Italic', 'BoldItalic'] },
+  Hack: { label: 'Hack', variants: ['Regular', 'Bold', 'Italic', 'BoldItalic'] },
+  IBMPlexMono: { label: 'IBM Plex Mono', variants: ['', 'Bold', 'Italic', 'BoldItalic'] },
+  Inconsolata: { label: 'Inconsolata', variants: ['Regular', 'Bold', 'Regular', 'Bold'] },
+};
+
+// 未收录字体按最常见的命名方式处理
+const defaultVariants: XcodeFontFamily['variants'] = ['Regular', 'Bold', 'Italic', 'BoldItalic'];
+
+// CSS 通用字体族及 VS Code 的默认回退字体，无法对应到具体字体
+const genericFamilies = new Set(['monospace', 'ui-monospace', 'sans-serif', 'serif', 'system-ui', 'courier new', 'droid sans mono']);
+
+// CSS 字体族名 → XcodeFont.family
+const cssFamilyAliases: Record<string, string> = {
+  'sfmono-regular': 'SFMono',
+  sfmono: 'SFMono',
+  'sf mono': 'SFMono',
+  ...Object.fromEntries(Object.entries(xcodeFontFamilies).map(([family, { label }]) => [label.toLowerCase(), family])),
+};
+
+/**
+ * 将 CSS 字体族列表（如 VS Code 的 editor.fontFamily）转换为 Xcode 字体：取第一个非通用字体族，
+ * 未收录的字体以去掉空格的名称作为 PostScript 字体族
+ * @param fontFamily 如 "'JetBrains Mono', Menlo, monospace"
+ * @param size 字号，缺省为 12
+ * @returns 只有通用字体族时返回 null
+ */
+export function xcodeFontFromCss(fontFamily: string, size?: number): XcodeFont | null {
+  for (const raw of fontFamily.split(',')) {
+    const name = raw.trim().replace(/^(['"])(.*)\1$/, '$2').trim();
+    const key = name.toLowerCase();
+    if (!name || genericFamilies.has(key)) continue;
+    return { family: cssFamilyAliases[key] || name.replace(/\s+/g, ''), size: size || defaultXcodeFont.size };
+  }
+  return null;
+}
+
+/**
+ * 解析 tokenColors 的 fontStyle 字段，如 "bold italic"
+ * Xcode 不支持下划线，underline 只做记录
+ */
+export function parseFontStyle(fontStyle: string | undefined): FontStyle {
+  const parts = (fontStyle || '').split(/\s+/);
+  return {
+    bold: parts.includes('bold'),
+    italic: parts.includes('italic'),
+    underline: parts.includes('underline'),
+  };
+}
+
+/**
+ * 生成 Xcode 字体字符串
+ * @param font 基础字体族与字号
+ * @param style 粗体/斜体变体
+ */
+export function xcodeFontName(font: XcodeFont, style?: Partial<FontStyle>): string {
+  const [regular, bold, italic, boldItalic] = xcodeFontFamilies[font.family]?.variants || defaultVariants;
+  const variant = style?.bold ? (style.italic ? boldItalic : bold) : (style?.italic ? italic : regular);
+  const name = variant ? `${font.family}-${variant}` : font.family;
+  return `${name} - ${font.size.toFixed(1)}`;
+}
+
+/**
+ * 控制台字体：与编辑器同一字体族，提示符和程序输入使用粗体
+ */
+export function consoleFonts(font: XcodeFont): Record<string, string> {
+  return {
+    DVTConsoleDebuggerInputTextFont: xcodeFontName(font),
+    DVTConsoleDebuggerOutputTextFont: xcodeFontName(font),
+    DVTConsoleDebuggerPromptTextFont: xcodeFontName(font, { bold: true }),
+    DVTConsoleExectuableInputTextFont: xcodeFontName(font, { bold: true }),
+    DVTConsoleExectuableOutputTextFont: xcodeFontName(font),
+  };
+}
+
+/**
+ * 文档注释渲染（Markup）字体：正文沿用 Xcode 默认的系统字体，代码使用编辑器字体族
+ */
+export function markupFonts(font: XcodeFont): Record<string, string> {
+  return {
+    DVTMarkupTextNormalFont: '.SFNS-Regular - 10.0',
+    DVTMarkupTextEmphasisFont: '.SFNS-RegularItalic - 10.0',
+    DVTMarkupTextStrongFont: '.SFNS-Bold - 10.0',
+    DVTMarkupTextLinkFont: '.SFNS-Regular - 10.0',
+    DVTMarkupTextCodeFont: xcodeFontName({ ...font, size: 10 }),
+    DVTMarkupTextPrimaryHeadingFont: '.SFNS-Regular - 24.0',
+    DVTMarkupTextSecondaryHeadingFont: '.SFNS-Regular - 18.0',
+    DVTMarkupTextOtherHeadingFont: '.SFNS-Regular - 14.0',
+  };
+}
+
+export interface ParsedXcodeFont extends FontStyle {
+  /** 完整的 PostScript 名称，如 SFMono-BoldItalic */
+  postScriptName: string;
+  /** 去掉变体后缀的字体族，如 SFMono */
+  family: string;
+  size: number;
+}
+
+/**
+ * 解析 Xcode 字体字符串，如 "SFMono-BoldItalic - 12.0"
+ * @returns 无法解析时返回 null
+ */
+export function parseXcodeFontName(value: string): ParsedXcodeFont | null {
+  const match = value.trim().match(/^(.+?)\s+-\s+(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const postScriptName = match[1];
+  const dash = postScriptName.lastIndexOf('-');
+  const variant = dash > 0 ? postScriptName.slice(dash + 1) : '';
+  return {
+    postScriptName,
+    family: dash > 0 ? postScriptName.slice(0, dash) : postScriptName,
+    size: Number(match[2]),
+    bold: /bold|heavy|black|semibold/i.test(variant),
+    italic: /italic|oblique|^(bold)?it$/i.test(variant),
+    underline: false,
+  };
+}
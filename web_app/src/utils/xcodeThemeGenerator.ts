@@ -1,121 +1,773 @@
-// Xcode 主题生成器：将 VSCode 主题解析结果转换为 .xccolortheme XML 字符串
-import { ParsedVscodeTheme } from './vscodeThemeParser';
-
-// Xcode 关键字段及默认值
-const xcodeRequiredKeys: Record<string, string> = {
-  DVTSourceTextBackground: '0.0584239 0.0584239 0.0584239 1',
-  DVTSourceTextSelectionColor: '0.253963 0.279965 0.351202 1',
-  DVTSourceTextCurrentLineHighlightColor: '0.107309 0.113809 0.131618 1',
-  DVTSourceTextInsertionPointColor: '0.973 0.973 0.941 1',
-  "xcode.syntax.plain": '0.973 0.973 0.941 1',
+// Xcode 主题生成器：将 VSCode 主题解析结果转换为 .xccolortheme 的 plist 模型及 XML 字符串
+import { ParsedVscodeTheme } from './vscodeThemeParser.js';
+import { PlistDict, serializePlist } from './plist.js';
+import { compositeOver, cssToXcodeColor, parseXcodeColor, RGBA, toXcodeColor } from './color.js';
+import { compileTokenRules, resolveScopeStyle, ScopeSelector, toScopeStack } from './scopeSelector.js';
+import { compileSemanticRules, resolveSemanticStyle, SemanticToken } from './semanticTokens.js';
+import { consoleFonts, defaultXcodeFont, FontStyle, markupFonts, parseFontStyle, XcodeFont, xcodeFontName } from './xcodeFonts.js';
+import { ConversionReport, createConversionReport } from './conversionReport.js';
+import { ContrastFix, defaultMinContrast, fixContrast } from './contrastCheck.js';
+import { inferAppearance, isLightAppearance, normalizeThemeType, ThemeAppearance } from './themeAppearance.js';
+import { transformsToPlist } from './themeTransforms.js';
+import { inferSyntaxColors, SyntaxInferenceVia } from './syntaxInference.js';
+
+// 滚动条标记颜色，深色与浅色外观共用
+const scrollbarMarkers: Record<string, string> = {
+  DVTScrollbarMarkerAnalyzerColor: '0.403922 0.372549 1 1',
+  DVTScrollbarMarkerBreakpointColor: '0.247 0.424 0.781 1',
+  DVTScrollbarMarkerDiffColor: '0.556 0.556 0.556 1',
+  DVTScrollbarMarkerDiffConflictColor: '0.94 0.36 0.27 1',
+  DVTScrollbarMarkerErrorColor: '0.96 0.28 0.29 1',
+  DVTScrollbarMarkerRuntimeIssueColor: '0.54 0.38 0.94 1',
+  DVTScrollbarMarkerSourceControlColor: '0.556 0.556 0.556 1',
+  DVTScrollbarMarkerWarningColor: '1 0.78 0.31 1',
 };
 
-// VSCode → Xcode 字段基础映射
-const colorMapping: Record<string, string> = {
-  'editor.background': 'DVTSourceTextBackground',
-  'editor.foreground': 'xcode.syntax.plain',
-  'editor.selectionBackground': 'DVTSourceTextSelectionColor',
-  'editor.lineHighlightBackground': 'DVTSourceTextCurrentLineHighlightColor',
-  'editorCursor.foreground': 'DVTSourceTextInsertionPointColor',
+// Xcode 关键字段在各外观下的默认值，主题未提供对应颜色时使用
+// dark 与 light 取自 Xcode 自带的 Default (Dark) / Default (Light) 主题，高对比度外观在此基础上加大明暗差
+const xcodeDefaultPalettes: Record<ThemeAppearance, Record<string, string>> = {
+  dark: {
+    DVTSourceTextBackground: '0.0584239 0.0584239 0.0584239 1',
+    DVTSourceTextSelectionColor: '0.253963 0.279965 0.351202 1',
+    DVTSourceTextCurrentLineHighlightColor: '0.107309 0.113809 0.131618 1',
+    DVTSourceTextInsertionPointColor: '0.973 0.973 0.941 1',
+    DVTSourceTextInvisiblesColor: '0.423943 0.474145 0.525216 1',
+    DVTSourceTextBlockDimBackgroundColor: '0.5 0.5 0.5 1',
+    DVTDebuggerInstructionPointerColor: '0.705792 0.8 0.544 1',
+    DVTConsoleTextBackgroundColor: '0.118 0.125 0.157 1',
+    DVTConsoleTextSelectionColor: '0.317 0.356 0.439 1',
+    DVTConsoleTextInsertionPointColor: '1 1 1 1',
+    DVTConsoleDebuggerInputTextColor: '1 1 1 0.85',
+    DVTConsoleDebuggerOutputTextColor: '1 1 1 0.85',
+    DVTConsoleDebuggerPromptTextColor: '0.477 0.746 0.996 1',
+    DVTConsoleExectuableInputTextColor: '1 1 1 1',
+    DVTConsoleExectuableOutputTextColor: '1 1 1 0.85',
+    DVTMarkupTextBackgroundColor: '0.163 0.166 0.188 1',
+    DVTMarkupTextBorderColor: '0.227 0.232 0.26 1',
+    DVTMarkupTextNormalColor: '1 1 1 1',
+    DVTMarkupTextEmphasisColor: '1 1 1 1',
+    DVTMarkupTextStrongColor: '1 1 1 1',
+    DVTMarkupTextInlineCodeColor: '1 1 1 0.7',
+    DVTMarkupTextLinkColor: '0.329 0.51 0.996 1',
+    DVTMarkupTextPrimaryHeadingColor: '1 1 1 1',
+    DVTMarkupTextSecondaryHeadingColor: '1 1 1 1',
+    DVTMarkupTextOtherHeadingColor: '1 1 1 0.5',
+    ...scrollbarMarkers,
+    'xcode.syntax.plain': '0.973 0.973 0.941 1',
+  },
+  light: {
+    DVTSourceTextBackground: '1 1 1 1',
+    DVTSourceTextSelectionColor: '0.642038 0.802669 0.999195 1',
+    DVTSourceTextCurrentLineHighlightColor: '0.909804 0.94902 1 1',
+    DVTSourceTextInsertionPointColor: '0 0 0 1',
+    DVTSourceTextInvisiblesColor: '0.727 0.727 0.727 1',
+    DVTSourceTextBlockDimBackgroundColor: '0.5 0.5 0.5 1',
+    DVTDebuggerInstructionPointerColor: '0.705792 0.8 0.544 1',
+    DVTConsoleTextBackgroundColor: '1 1 1 1',
+    DVTConsoleTextSelectionColor: '0.642038 0.802669 0.999195 1',
+    DVTConsoleTextInsertionPointColor: '0 0 0 1',
+    DVTConsoleDebuggerInputTextColor: '0 0 0 0.85',
+    DVTConsoleDebuggerOutputTextColor: '0 0 0 0.85',
+    DVTConsoleDebuggerPromptTextColor: '0.058 0.43 0.85 1',
+    DVTConsoleExectuableInputTextColor: '0 0 0 1',
+    DVTConsoleExectuableOutputTextColor: '0 0 0 0.85',
+    DVTMarkupTextBackgroundColor: '0.961 0.961 0.969 1',
+    DVTMarkupTextBorderColor: '0.863 0.863 0.878 1',
+    DVTMarkupTextNormalColor: '0 0 0 1',
+    DVTMarkupTextEmphasisColor: '0 0 0 1',
+    DVTMarkupTextStrongColor: '0 0 0 1',
+    DVTMarkupTextInlineCodeColor: '0 0 0 0.7',
+    DVTMarkupTextLinkColor: '0.055 0.329 0.8 1',
+    DVTMarkupTextPrimaryHeadingColor: '0 0 0 1',
+    DVTMarkupTextSecondaryHeadingColor: '0 0 0 1',
+    DVTMarkupTextOtherHeadingColor: '0 0 0 0.5',
+    ...scrollbarMarkers,
+    DVTScrollbarMarkerErrorColor: '0.86 0.16 0.17 1',
+    DVTScrollbarMarkerWarningColor: '0.85 0.6 0.1 1',
+    'xcode.syntax.plain': '0 0 0 0.85',
+  },
+  hc: {
+    DVTSourceTextBackground: '0 0 0 1',
+    DVTSourceTextSelectionColor: '0.149 0.31 0.471 1',
+    DVTSourceTextCurrentLineHighlightColor: '0.133 0.133 0.133 1',
+    DVTSourceTextInsertionPointColor: '1 1 1 1',
+    DVTSourceTextInvisiblesColor: '0.6 0.6 0.6 1',
+    DVTSourceTextBlockDimBackgroundColor: '0.5 0.5 0.5 1',
+    DVTDebuggerInstructionPointerColor: '0.72 0.86 0.51 1',
+    DVTConsoleTextBackgroundColor: '0 0 0 1',
+    DVTConsoleTextSelectionColor: '0.149 0.31 0.471 1',
+    DVTConsoleTextInsertionPointColor: '1 1 1 1',
+    DVTConsoleDebuggerInputTextColor: '1 1 1 1',
+    DVTConsoleDebuggerOutputTextColor: '1 1 1 1',
+    DVTConsoleDebuggerPromptTextColor: '0.5 0.76 1 1',
+    DVTConsoleExectuableInputTextColor: '1 1 1 1',
+    DVTConsoleExectuableOutputTextColor: '1 1 1 1',
+    DVTMarkupTextBackgroundColor: '0.078 0.078 0.078 1',
+    DVTMarkupTextBorderColor: '0.6 0.6 0.6 1',
+    DVTMarkupTextNormalColor: '1 1 1 1',
+    DVTMarkupTextEmphasisColor: '1 1 1 1',
+    DVTMarkupTextStrongColor: '1 1 1 1',
+    DVTMarkupTextInlineCodeColor: '1 1 1 0.85',
+    DVTMarkupTextLinkColor: '0.5 0.76 1 1',
+    DVTMarkupTextPrimaryHeadingColor: '1 1 1 1',
+    DVTMarkupTextSecondaryHeadingColor: '1 1 1 1',
+    DVTMarkupTextOtherHeadingColor: '1 1 1 0.75',
+    ...scrollbarMarkers,
+    'xcode.syntax.plain': '1 1 1 1',
+  },
+  hcLight: {
+    DVTSourceTextBackground: '1 1 1 1',
+    DVTSourceTextSelectionColor: '0.561 0.733 1 1',
+    DVTSourceTextCurrentLineHighlightColor: '0.906 0.906 0.906 1',
+    DVTSourceTextInsertionPointColor: '0 0 0 1',
+    DVTSourceTextInvisiblesColor: '0.45 0.45 0.45 1',
+    DVTSourceTextBlockDimBackgroundColor: '0.5 0.5 0.5 1',
+    DVTDebuggerInstructionPointerColor: '0.36 0.55 0.1 1',
+    DVTConsoleTextBackgroundColor: '1 1 1 1',
+    DVTConsoleTextSelectionColor: '0.561 0.733 1 1',
+    DVTConsoleTextInsertionPointColor: '0 0 0 1',
+    DVTConsoleDebuggerInputTextColor: '0 0 0 1',
+    DVTConsoleDebuggerOutputTextColor: '0 0 0 1',
+    DVTConsoleDebuggerPromptTextColor: '0 0.3 0.7 1',
+    DVTConsoleExectuableInputTextColor: '0 0 0 1',
+    DVTConsoleExectuableOutputTextColor: '0 0 0 1',
+    DVTMarkupTextBackgroundColor: '0.98 0.98 0.98 1',
+    DVTMarkupTextBorderColor: '0.3 0.3 0.3 1',
+    DVTMarkupTextNormalColor: '0 0 0 1',
+    DVTMarkupTextEmphasisColor: '0 0 0 1',
+    DVTMarkupTextStrongColor: '0 0 0 1',
+    DVTMarkupTextInlineCodeColor: '0 0 0 0.85',
+    DVTMarkupTextLinkColor: '0 0.3 0.7 1',
+    DVTMarkupTextPrimaryHeadingColor: '0 0 0 1',
+    DVTMarkupTextSecondaryHeadingColor: '0 0 0 1',
+    DVTMarkupTextOtherHeadingColor: '0 0 0 0.75',
+    ...scrollbarMarkers,
+    DVTScrollbarMarkerErrorColor: '0.75 0.1 0.1 1',
+    DVTScrollbarMarkerWarningColor: '0.7 0.45 0 1',
+    'xcode.syntax.plain': '0 0 0 1',
+  },
 };
 
-// VSCode token → Xcode syntax token 映射
-const tokenMapping: Record<string, string> = {
-  'comment': 'xcode.syntax.comment',
-  'string': 'xcode.syntax.string',
-  'string.quoted': 'xcode.syntax.string',
-  'string.quoted.double': 'xcode.syntax.string',
-  'string.quoted.single': 'xcode.syntax.string',
-  'constant.character': 'xcode.syntax.character',
-  'string.character': 'xcode.syntax.character',
-  'character': 'xcode.syntax.character',
-  'keyword': 'xcode.syntax.keyword',
-  'number': 'xcode.syntax.number',
-  'variable': 'xcode.syntax.identifier.variable',
-  'function': 'xcode.syntax.identifier.function',
-  'type': 'xcode.syntax.identifier.type',
-  'class': 'xcode.syntax.identifier.class',
-  'constant': 'xcode.syntax.identifier.constant',
-  'attribute': 'xcode.syntax.attribute',
+// 优先使用 type，type 无法识别时按背景推断
+function appearanceOf(theme: ParsedVscodeTheme): ThemeAppearance {
+  return normalizeThemeType(theme.type) || inferAppearance(theme.colors);
+}
+
+/**
+ * 主题外观对应的默认配色
+ * @param theme ParsedVscodeTheme
+ */
+export function defaultPaletteFor(theme: ParsedVscodeTheme): Record<string, string> {
+  return xcodeDefaultPalettes[appearanceOf(theme)];
+}
+
+/**
+ * 半透明的编辑器背景下方的底色：浅色外观为白色，否则为黑色；展开透明色与对比度检查都以它为底
+ * @param theme ParsedVscodeTheme
+ */
+export function backdropBase(theme: ParsedVscodeTheme): RGBA {
+  return isLightAppearance(appearanceOf(theme)) ? { r: 1, g: 1, b: 1, a: 1 } : { r: 0, g: 0, b: 0, a: 1 };
+}
+
+// 颜色来源：VSCode workbench 颜色键，或以 @ 开头引用前面已得出的 Xcode 字段；alpha 会乘到结果的透明度上
+type ColorSource = string | { from: string; alpha: number };
+
+// Xcode 字段 → VSCode 颜色来源（按优先级排列，依次尝试），只能引用表中靠前的字段
+const colorMapping: Record<string, ColorSource[]> = {
+  DVTSourceTextBackground: ['editor.background'],
+  'xcode.syntax.plain': ['editor.foreground', 'foreground'],
+  DVTSourceTextSelectionColor: ['editor.selectionBackground', 'selection.background'],
+  DVTSourceTextCurrentLineHighlightColor: ['editor.lineHighlightBackground', { from: '@DVTSourceTextSelectionColor', alpha: 0.35 }],
+  DVTSourceTextInsertionPointColor: ['editorCursor.foreground', '@xcode.syntax.plain'],
+  DVTSourceTextInvisiblesColor: ['editorWhitespace.foreground', 'editorLineNumber.foreground', { from: '@xcode.syntax.plain', alpha: 0.3 }],
+  DVTSourceTextBlockDimBackgroundColor: ['editorLineNumber.foreground', { from: '@xcode.syntax.plain', alpha: 0.5 }],
+  DVTDebuggerInstructionPointerColor: ['debugIcon.breakpointCurrentStackframeForeground', 'editor.stackFrameHighlightBackground'],
+  // 控制台
+  DVTConsoleTextBackgroundColor: ['terminal.background', 'panel.background', '@DVTSourceTextBackground'],
+  DVTConsoleTextSelectionColor: ['terminal.selectionBackground', '@DVTSourceTextSelectionColor'],
+  DVTConsoleTextInsertionPointColor: ['terminalCursor.foreground', '@DVTSourceTextInsertionPointColor'],
+  DVTConsoleDebuggerInputTextColor: ['terminal.foreground', '@xcode.syntax.plain'],
+  DVTConsoleDebuggerOutputTextColor: ['terminal.foreground', '@xcode.syntax.plain'],
+  DVTConsoleDebuggerPromptTextColor: ['terminal.ansiBrightBlue', 'terminal.ansiBlue', 'textLink.foreground'],
+  DVTConsoleExectuableInputTextColor: ['terminal.foreground', '@xcode.syntax.plain'],
+  DVTConsoleExectuableOutputTextColor: ['terminal.foreground', '@xcode.syntax.plain'],
+  // 文档注释渲染（Markup）
+  DVTMarkupTextBackgroundColor: ['editorHoverWidget.background', 'editorWidget.background', '@DVTSourceTextBackground'],
+  DVTMarkupTextBorderColor: ['editorHoverWidget.border', 'editorWidget.border', { from: '@xcode.syntax.plain', alpha: 0.2 }],
+  DVTMarkupTextNormalColor: ['editorHoverWidget.foreground', 'editorWidget.foreground', '@xcode.syntax.plain'],
+  DVTMarkupTextEmphasisColor: ['@DVTMarkupTextNormalColor'],
+  DVTMarkupTextStrongColor: ['@DVTMarkupTextNormalColor'],
+  DVTMarkupTextInlineCodeColor: ['textPreformat.foreground', { from: '@DVTMarkupTextNormalColor', alpha: 0.7 }],
+  DVTMarkupTextLinkColor: ['textLink.foreground', 'editorLink.activeForeground'],
+  DVTMarkupTextPrimaryHeadingColor: ['@DVTMarkupTextNormalColor'],
+  DVTMarkupTextSecondaryHeadingColor: ['@DVTMarkupTextNormalColor'],
+  DVTMarkupTextOtherHeadingColor: [{ from: '@DVTMarkupTextNormalColor', alpha: 0.5 }],
+  // 滚动条标记
+  DVTScrollbarMarkerAnalyzerColor: ['editorOverviewRuler.infoForeground', 'editorInfo.foreground'],
+  DVTScrollbarMarkerBreakpointColor: ['debugIcon.breakpointForeground'],
+  DVTScrollbarMarkerDiffColor: ['editorOverviewRuler.modifiedForeground', 'editorGutter.modifiedBackground'],
+  DVTScrollbarMarkerDiffConflictColor: ['editorOverviewRuler.conflictForeground', 'gitDecoration.conflictingResourceForeground'],
+  DVTScrollbarMarkerErrorColor: ['editorOverviewRuler.errorForeground', 'editorError.foreground', 'errorForeground'],
+  DVTScrollbarMarkerRuntimeIssueColor: ['editorOverviewRuler.infoForeground', 'editorInfo.foreground'],
+  DVTScrollbarMarkerSourceControlColor: ['editorOverviewRuler.addedForeground', 'editorGutter.addedBackground'],
+  DVTScrollbarMarkerWarningColor: ['editorOverviewRuler.warningForeground', 'editorWarning.foreground'],
+};
+
+// 非颜色的固定字段
+const xcodeStaticKeys: PlistDict = {
+  DVTFontAndColorVersion: 1,
+  DVTLineSpacing: 1.1,
+};
+
+// Xcode syntax token → 代表性 TextMate scope 栈（按优先级排列，从外到内以空格分隔）
+// 参照 VSCode 内置的 Swift 与 Objective-C 语法产生的 scope；每个 Xcode 字段依次用这些 scope 栈去匹配 tokenColors，
+// 取第一个有匹配结果的 scope 栈所属语言，该语言的栈中优先采用限定了语言的规则（见 isLanguageQualified）
+const tokenMapping: Record<string, string[]> = {
+  'xcode.syntax.comment': [
+    'source.swift comment.line.double-slash.swift',
+    'source.swift comment.block.swift',
+    'source.objc comment.line.double-slash.objc',
+    'source.objc comment.block.objc',
+  ],
+  'xcode.syntax.comment.doc': [
+    'source.swift comment.line.triple-slash.documentation.swift',
+    'source.swift comment.block.documentation.swift',
+    'source.objc comment.block.documentation.objc',
+    'source.objc comment.line.double-slash.documentation.objc',
+  ],
+  'xcode.syntax.comment.doc.keyword': [
+    'source.swift comment.line.triple-slash.documentation.swift keyword.other.documentation.swift',
+    'source.swift comment.block.documentation.swift keyword.other.documentation.swift',
+    'source.objc comment.block.documentation.objc storage.type.class.doxygen.objc',
+    'source.objc comment.block.documentation.objc keyword.other.documentation.objc',
+  ],
+  'xcode.syntax.mark': [
+    'source.swift comment.line.double-slash.swift meta.mark.swift',
+    'source.objc meta.preprocessor.pragma.objc entity.name.tag.pragma-mark.objc',
+    'source.objc meta.section.pragma-mark.objc',
+  ],
+  'xcode.syntax.url': [
+    'source.swift comment.line.double-slash.swift markup.underline.link.swift',
+    'source.objc comment.line.double-slash.objc markup.underline.link.objc',
+  ],
+  'xcode.syntax.string': [
+    'source.swift string.quoted.double.swift',
+    'source.swift string.quoted.double.block.swift',
+    'source.objc string.quoted.double.objc',
+  ],
+  'xcode.syntax.character': [
+    'source.swift string.quoted.double.swift constant.character.escape.swift',
+    'source.objc string.quoted.single.c',
+    'source.objc string.quoted.single.objc',
+  ],
+  'xcode.syntax.regex': [
+    'source.swift string.regexp.line.swift',
+    'source.swift string.regexp.block.swift',
+  ],
+  'xcode.syntax.regex.capturename': [
+    'source.swift string.regexp.line.swift meta.group.regexp.swift variable.other.group-name.regexp.swift',
+    'source.swift string.regexp.line.swift meta.group.regexp.swift entity.name.capture-group.regexp.swift',
+  ],
+  'xcode.syntax.keyword': [
+    'source.swift keyword.other.declaration-specifier.swift',
+    'source.swift keyword.control.branch.swift',
+    'source.swift storage.type.function.swift',
+    'source.swift storage.modifier.swift',
+    'source.objc keyword.control.objc',
+    'source.objc storage.type.objc',
+  ],
+  'xcode.syntax.preprocessor': [
+    'source.swift meta.preprocessor.conditional.swift keyword.control.import.preprocessor.conditional.swift',
+    'source.objc meta.preprocessor.include.objc keyword.control.directive.include.objc',
+    'source.objc meta.preprocessor.macro.objc keyword.control.directive.define.objc',
+    'source.objc meta.preprocessor.objc keyword.control.directive.conditional.objc',
+    'source.objc meta.preprocessor.objc',
+  ],
+  'xcode.syntax.number': [
+    'source.swift constant.numeric.integer.decimal.swift',
+    'source.swift constant.numeric.float.decimal.swift',
+    'source.objc constant.numeric.decimal.objc',
+  ],
+  'xcode.syntax.identifier.variable': [
+    'source.swift meta.definition.variable.swift variable.other.declaration.swift',
+    'source.swift variable.other.swift',
+    'source.objc variable.other.property.objc',
+    'source.objc variable.other.objc',
+  ],
+  'xcode.syntax.identifier.variable.system': [
+    'source.swift support.variable.swift',
+    'source.objc support.variable.foundation.objc',
+    'source.objc support.variable.objc',
+  ],
+  'xcode.syntax.identifier.function': [
+    'source.swift meta.function-call.swift support.function.any-method.swift',
+    'source.swift meta.definition.function.swift entity.name.function.swift',
+    'source.objc meta.function-call.objc entity.name.function.objc',
+  ],
+  'xcode.syntax.identifier.function.system': [
+    'source.swift meta.function-call.swift support.function.swift',
+    'source.objc meta.function-call.objc support.function.cocoa.objc',
+    'source.objc meta.function-call.objc support.function.C99.objc',
+  ],
+  'xcode.syntax.identifier.type': [
+    'source.swift entity.name.type.swift',
+    'source.swift entity.name.type.class.swift',
+    'source.objc entity.name.type.objc',
+  ],
+  'xcode.syntax.identifier.type.system': [
+    'source.swift meta.type-name.swift support.type.swift',
+    'source.objc support.type.cocoa.objc',
+    'source.objc support.type.sys-types.objc',
+  ],
+  'xcode.syntax.identifier.class': [
+    'source.swift meta.definition.type.class.swift entity.name.type.class.swift',
+    'source.swift entity.name.type.swift',
+    'source.objc entity.name.type.class.objc',
+  ],
+  'xcode.syntax.identifier.class.system': [
+    'source.swift support.class.swift',
+    'source.objc support.class.cocoa.objc',
+  ],
+  'xcode.syntax.identifier.constant': [
+    'source.swift variable.other.constant.swift',
+    'source.swift constant.other.swift',
+    'source.objc variable.other.enummember.objc',
+    'source.objc constant.other.objc',
+  ],
+  'xcode.syntax.identifier.constant.system': [
+    'source.swift support.constant.swift',
+    'source.objc support.constant.cocoa.objc',
+    'source.objc constant.language.objc',
+  ],
+  'xcode.syntax.identifier.macro': [
+    'source.objc meta.preprocessor.macro.objc entity.name.function.preprocessor.objc',
+    'source.swift meta.macro-expansion.swift entity.name.function.macro.swift',
+  ],
+  'xcode.syntax.identifier.macro.system': [
+    'source.objc support.constant.macro.objc',
+  ],
+  'xcode.syntax.declaration.type': [
+    'source.swift meta.definition.type.class.swift entity.name.type.class.swift',
+    'source.swift meta.definition.type.struct.swift entity.name.type.struct.swift',
+    'source.swift meta.definition.type.enum.swift entity.name.type.enum.swift',
+    'source.swift meta.definition.type.protocol.swift entity.name.type.protocol.swift',
+    'source.objc meta.interface-or-protocol.objc entity.name.type.objc',
+    'source.objc meta.implementation.objc entity.name.type.objc',
+  ],
+  'xcode.syntax.declaration.other': [
+    'source.swift meta.definition.function.swift entity.name.function.swift',
+    'source.objc meta.function-with-body.objc entity.name.function.objc',
+    'source.objc meta.function.objc entity.name.function.objc',
+  ],
+  'xcode.syntax.attribute': [
+    'source.swift meta.attribute.swift storage.modifier.attribute.swift',
+    'source.swift entity.other.attribute-name.swift',
+  ],
 };
 
-// 颜色格式转换
-function hexToXcodeColor(hex: string, fallback = '1 1 1 1'): string {
-  if (!hex || typeof hex !== 'string') return fallback;
-  let h = hex.trim().replace('#', '');
-  if (h.length === 3) h = h.split('').map(x => x + x).join('');
-  if (h.length === 6) h += 'FF';
-  if (h.length !== 8) return fallback;
-  const r = Math.round(parseInt(h.slice(0, 2), 16) / 255 * 1000000) / 1000000;
-  const g = Math.round(parseInt(h.slice(2, 4), 16) / 255 * 1000000) / 1000000;
-  const b = Math.round(parseInt(h.slice(4, 6), 16) / 255 * 1000000) / 1000000;
-  const a = Math.round(parseInt(h.slice(6, 8), 16) / 255 * 1000000) / 1000000;
-  if ([r, g, b, a].some(x => isNaN(x) || x < 0 || x > 1)) return fallback;
-  return `${r} ${g} ${b} ${a}`;
+// Swift 与 Objective-C 语法的 scope 语言后缀
+const languageSuffix = /(^|\.)(swift|objc|objcpp)(\.|$)/;
+
+// 选择器是否限定了语言，如 "source.swift comment"、"comment.block.documentation.swift"
+function isLanguageQualified(selector: ScopeSelector): boolean {
+  return selector.path.some(scope => languageSuffix.test(scope));
+}
+
+// Xcode syntax token → 代表性语义 token（按优先级排列），主题启用语义高亮时优先于 TextMate 规则
+const semanticMapping: Record<string, SemanticToken[]> = {
+  'xcode.syntax.identifier.class': [{ type: 'class' }],
+  'xcode.syntax.identifier.class.system': [{ type: 'class', modifiers: ['defaultLibrary'] }],
+  'xcode.syntax.identifier.type': [{ type: 'struct' }, { type: 'enum' }, { type: 'interface' }, { type: 'typeParameter' }, { type: 'type' }],
+  'xcode.syntax.identifier.type.system': [
+    { type: 'struct', modifiers: ['defaultLibrary'] },
+    { type: 'enum', modifiers: ['defaultLibrary'] },
+    { type: 'interface', modifiers: ['defaultLibrary'] },
+    { type: 'type', modifiers: ['defaultLibrary'] },
+  ],
+  'xcode.syntax.identifier.function': [{ type: 'function' }, { type: 'method' }],
+  'xcode.syntax.identifier.function.system': [
+    { type: 'function', modifiers: ['defaultLibrary'] },
+    { type: 'method', modifiers: ['defaultLibrary'] },
+  ],
+  'xcode.syntax.identifier.variable': [{ type: 'property' }, { type: 'variable' }],
+  'xcode.syntax.identifier.variable.system': [
+    { type: 'property', modifiers: ['defaultLibrary'] },
+    { type: 'variable', modifiers: ['defaultLibrary'] },
+  ],
+  'xcode.syntax.identifier.constant': [{ type: 'enumMember' }, { type: 'variable', modifiers: ['readonly'] }],
+  'xcode.syntax.identifier.constant.system': [
+    { type: 'enumMember', modifiers: ['defaultLibrary'] },
+    { type: 'variable', modifiers: ['readonly', 'defaultLibrary'] },
+  ],
+  'xcode.syntax.identifier.macro': [{ type: 'macro' }],
+  'xcode.syntax.identifier.macro.system': [{ type: 'macro', modifiers: ['defaultLibrary'] }],
+  'xcode.syntax.declaration.type': [
+    { type: 'class', modifiers: ['declaration'] },
+    { type: 'struct', modifiers: ['declaration'] },
+    { type: 'enum', modifiers: ['declaration'] },
+    { type: 'interface', modifiers: ['declaration'] },
+  ],
+  'xcode.syntax.declaration.other': [
+    { type: 'function', modifiers: ['declaration'] },
+    { type: 'method', modifiers: ['declaration'] },
+    { type: 'property', modifiers: ['declaration'] },
+    { type: 'variable', modifiers: ['declaration'] },
+  ],
+};
+
+// 拆分出的细分字段缺失时沿用的基础字段（按顺序处理，被引用的字段需先于引用它的字段）
+const syntaxKeyFallbacks: Record<string, string> = {
+  'xcode.syntax.comment.doc': 'xcode.syntax.comment',
+  'xcode.syntax.comment.doc.keyword': 'xcode.syntax.comment.doc',
+  'xcode.syntax.mark': 'xcode.syntax.comment',
+  'xcode.syntax.url': 'xcode.syntax.comment',
+  'xcode.syntax.regex': 'xcode.syntax.string',
+  'xcode.syntax.regex.capturename': 'xcode.syntax.regex',
+  'xcode.syntax.preprocessor': 'xcode.syntax.keyword',
+  'xcode.syntax.identifier.class.system': 'xcode.syntax.identifier.class',
+  'xcode.syntax.identifier.type.system': 'xcode.syntax.identifier.type',
+  'xcode.syntax.identifier.function.system': 'xcode.syntax.identifier.function',
+  'xcode.syntax.identifier.variable.system': 'xcode.syntax.identifier.variable',
+  'xcode.syntax.identifier.constant.system': 'xcode.syntax.identifier.constant',
+  'xcode.syntax.identifier.macro.system': 'xcode.syntax.identifier.macro',
+  'xcode.syntax.declaration.type': 'xcode.syntax.identifier.type',
+  'xcode.syntax.declaration.other': 'xcode.syntax.identifier.function',
+};
+
+// 展开透明色时各字段的底色（按顺序处理，底色需先于引用它的字段展开），未列出的字段以编辑器背景为底
+const flattenBackdrops: Array<[string, string]> = [
+  ['DVTSourceTextCurrentLineHighlightColor', 'DVTSourceTextBackground'],
+  // 选区绘制在当前行高亮之上
+  ['DVTSourceTextSelectionColor', 'DVTSourceTextCurrentLineHighlightColor'],
+  ['DVTConsoleTextBackgroundColor', 'DVTSourceTextBackground'],
+  ['DVTConsoleTextSelectionColor', 'DVTConsoleTextBackgroundColor'],
+  ['DVTConsoleTextInsertionPointColor', 'DVTConsoleTextBackgroundColor'],
+  ['DVTConsoleDebuggerInputTextColor', 'DVTConsoleTextBackgroundColor'],
+  ['DVTConsoleDebuggerOutputTextColor', 'DVTConsoleTextBackgroundColor'],
+  ['DVTConsoleDebuggerPromptTextColor', 'DVTConsoleTextBackgroundColor'],
+  ['DVTConsoleExectuableInputTextColor', 'DVTConsoleTextBackgroundColor'],
+  ['DVTConsoleExectuableOutputTextColor', 'DVTConsoleTextBackgroundColor'],
+  ['DVTMarkupTextBackgroundColor', 'DVTSourceTextBackground'],
+  ['DVTMarkupTextBorderColor', 'DVTMarkupTextBackgroundColor'],
+  ['DVTMarkupTextNormalColor', 'DVTMarkupTextBackgroundColor'],
+  ['DVTMarkupTextEmphasisColor', 'DVTMarkupTextBackgroundColor'],
+  ['DVTMarkupTextStrongColor', 'DVTMarkupTextBackgroundColor'],
+  ['DVTMarkupTextInlineCodeColor', 'DVTMarkupTextBackgroundColor'],
+  ['DVTMarkupTextLinkColor', 'DVTMarkupTextBackgroundColor'],
+  ['DVTMarkupTextPrimaryHeadingColor', 'DVTMarkupTextBackgroundColor'],
+  ['DVTMarkupTextSecondaryHeadingColor', 'DVTMarkupTextBackgroundColor'],
+  ['DVTMarkupTextOtherHeadingColor', 'DVTMarkupTextBackgroundColor'],
+];
+
+// 将半透明颜色合成到底色上，得到与 VSCode 中观感一致的不透明颜色
+// base 为半透明编辑器背景的底色：深色外观为黑色，浅色外观为白色
+function flattenColors(xcodeColors: Record<string, string>, syntaxColors: Record<string, string>, base: RGBA) {
+  const over = (value: string, backdrop: string) => {
+    const fg = parseXcodeColor(value);
+    const bg = parseXcodeColor(backdrop);
+    return fg && bg && fg.a < 1 ? toXcodeColor(compositeOver(fg, bg)) : value;
+  };
+  const background = parseXcodeColor(xcodeColors.DVTSourceTextBackground);
+  if (background && background.a < 1) {
+    xcodeColors.DVTSourceTextBackground = toXcodeColor(compositeOver(background, base));
+  }
+  const handled = new Set(['DVTSourceTextBackground']);
+  for (const [key, backdropKey] of flattenBackdrops) {
+    xcodeColors[key] = over(xcodeColors[key], xcodeColors[backdropKey]);
+    handled.add(key);
+  }
+  for (const key of Object.keys(xcodeColors)) {
+    if (!handled.has(key)) xcodeColors[key] = over(xcodeColors[key], xcodeColors.DVTSourceTextBackground);
+  }
+  for (const key of Object.keys(syntaxColors)) {
+    syntaxColors[key] = over(syntaxColors[key], xcodeColors.DVTSourceTextBackground);
+  }
 }
 
 /**
- * 生成 Xcode 主题 XML 字符串
+ * 单个 Xcode 字段的手动覆盖，color 优先于 source
+ * - color：CSS 颜色
+ * - source：改用的来源，类型见 overrideSourceType；颜色来源也可用 @Xcode 字段引用前面的字段
+ */
+export interface XcodeOverride {
+  color?: string;
+  source?: string;
+}
+
+export type XcodeOverrides = Record<string, XcodeOverride>;
+
+export interface XcodeThemeOptions {
+  /** 基础字体，粗体/斜体变体取自匹配到的 token 规则，默认 SF Mono 12 */
+  font?: XcodeFont;
+  /** 将半透明颜色合成到编辑器背景（或当前行高亮）上，Xcode 对透明度的渲染与 VSCode 不同 */
+  flattenAlpha?: boolean;
+  /** 按 Xcode 字段覆盖映射结果 */
+  overrides?: XcodeOverrides;
+  /** 最低 WCAG 对比度，设置后报告会列出低于该值的颜色；自动调整时默认 4.5 */
+  minContrast?: number;
+  /** 在 OKLCH 中调整亮度，使颜色达到最低对比度 */
+  ensureContrast?: boolean;
+}
+
+/** Xcode 字段取值的来源 */
+export type XcodeKeySource =
+  /** VSCode workbench 颜色键 */
+  | { type: 'color'; key: string; alpha?: number }
+  /** 引用前面已得出的 Xcode 字段 */
+  | { type: 'reference'; key: string; alpha?: number }
+  /** tokenColors 规则；index 为规则在 tokenColors 中的位置，scope 为用于匹配的 scope 栈，selector 为命中的选择器 */
+  | { type: 'token'; index: number; scope: string; selector: string; name?: string }
+  /** semanticTokenColors 规则 */
+  | { type: 'semantic'; selector: string }
+  /** 缺失时沿用的其他 syntax 字段 */
+  | { type: 'fallback'; key: string }
+  /** 主题未定义，由相关 scope、workbench 颜色键或调色板颜色推断；from 为推断依据 */
+  | { type: 'inferred'; via: SyntaxInferenceVia; from: string }
+  /** 没有任何来源，使用 Xcode 默认值 */
+  | { type: 'default' }
+  /** 手动输入的颜色 */
+  | { type: 'override'; color: string };
+
+export interface XcodeThemeTrace {
+  plist: PlistDict;
+  /** 每个颜色字段（含 xcode.syntax.*）的来源 */
+  sources: Record<string, XcodeKeySource>;
+  /** 提供了颜色或字体样式的 tokenColors 规则位置 */
+  usedTokenRules: number[];
+  /** 提供了颜色或字体样式的 semanticTokenColors 选择器 */
+  usedSemanticColors: string[];
+  /** 为达到最低对比度所做的调整 */
+  contrastFixes: ContrastFix[];
+}
+
+export interface XcodeConversion {
+  plist: PlistDict;
+  xml: string;
+  report: ConversionReport;
+}
+
+// 调整 Xcode 颜色字符串的透明度
+function withAlpha(color: string, alpha: number): string {
+  const rgba = parseXcodeColor(color);
+  return rgba ? toXcodeColor({ ...rgba, a: rgba.a * alpha }) : color;
+}
+
+// 解析单个颜色来源，无法取得时返回 null 以便尝试下一个来源
+function resolveColorSource(theme: ParsedVscodeTheme, xcodeColors: Record<string, string>, source: ColorSource): string | null {
+  const { from, alpha } = typeof source === 'string' ? { from: source, alpha: 1 } : source;
+  let color: string | null = null;
+  if (from.startsWith('@')) {
+    color = xcodeColors[from.slice(1)] || null;
+  } else if (theme.colors[from]) {
+    const converted = cssToXcodeColor(theme.colors[from], '');
+    color = converted || null;
+  }
+  return color && alpha !== 1 ? withAlpha(color, alpha) : color;
+}
+
+function describeColorSource(source: ColorSource): XcodeKeySource {
+  const { from, alpha } = typeof source === 'string' ? { from: source, alpha: 1 } : source;
+  const key = from.replace(/^@/, '');
+  const type = from.startsWith('@') ? 'reference' : 'color';
+  return alpha === 1 ? { type, key } : { type, key, alpha };
+}
+
+// 覆盖颜色无法解析时忽略该覆盖
+function overrideColor(override: XcodeOverride | undefined): string | null {
+  return override?.color ? cssToXcodeColor(override.color, '') || null : null;
+}
+
+/**
+ * 覆盖来源的类型：syntax.plain 与非 syntax 字段取自 VSCode 颜色键，其余 syntax 字段取自 TextMate scope
+ * @param key Xcode 字段
+ */
+export function overrideSourceType(key: string): 'color' | 'scope' {
+  return key in colorMapping ? 'color' : 'scope';
+}
+
+/** 所有可映射的 Xcode 颜色字段：非 syntax 字段与 syntax 字段 */
+export const xcodeColorKeys = Object.keys(xcodeDefaultPalettes.dark).filter(key => !key.startsWith('xcode.syntax.'));
+export const xcodeSyntaxKeys = [
+  'xcode.syntax.plain',
+  ...new Set([...Object.keys(tokenMapping), ...Object.keys(semanticMapping), ...Object.keys(syntaxKeyFallbacks)]),
+];
+
+/**
+ * 生成 Xcode 主题的 plist 模型，并记录每个颜色字段的来源
  * @param theme ParsedVscodeTheme
+ * @param options 生成选项
  */
-export function generateXcodeTheme(theme: ParsedVscodeTheme): string {
-  // 1. 颜色基础映射，先补全所有关键字段
-  const xcodeColors: Record<string, string> = { ...xcodeRequiredKeys };
-  for (const [vsKey, xcKey] of Object.entries(colorMapping)) {
-    if (theme.colors[vsKey]) {
-      xcodeColors[xcKey] = hexToXcodeColor(theme.colors[vsKey], xcodeColors[xcKey] || '1 1 1 1');
+export function traceXcodeTheme(theme: ParsedVscodeTheme, options: XcodeThemeOptions = {}): XcodeThemeTrace {
+  const overrides = options.overrides || {};
+  const sources: Record<string, XcodeKeySource> = {};
+  // 1. 颜色基础映射，先补全所有关键字段，再按来源表依次尝试；覆盖的来源替换整个来源表
+  const palette = defaultPaletteFor(theme);
+  const xcodeColors: Record<string, string> = { ...palette };
+  for (const key of Object.keys(palette)) sources[key] = { type: 'default' };
+  for (const [xcKey, mapped] of Object.entries(colorMapping)) {
+    const override = overrides[xcKey];
+    const color = overrideColor(override);
+    if (color) {
+      xcodeColors[xcKey] = color;
+      sources[xcKey] = { type: 'override', color: override.color as string };
+      continue;
+    }
+    for (const source of override?.source ? [override.source] : mapped) {
+      const resolved = resolveColorSource(theme, xcodeColors, source);
+      if (resolved) {
+        xcodeColors[xcKey] = resolved;
+        sources[xcKey] = describeColorSource(source);
+        break;
+      }
     }
   }
-  // 2. token 映射（优先采用最通用 scope 的颜色）
+  // 2. token 映射：用 scope 选择器为每个 Xcode 字段挑选最具体的规则
   const syntaxColors: Record<string, string> = {};
-  const scopePriority = [
-    'string', 'string.quoted', 'string.quoted.double', 'string.quoted.single',
-    'constant.character', 'string.character', 'character',
-    'comment', 'keyword', 'number', 'variable', 'function', 'type', 'class', 'constant', 'attribute'
-  ];
-  if (Array.isArray(theme.tokenColors)) {
-    for (const token of theme.tokenColors) {
-      const scopes: string[] = Array.isArray(token.scope) ? token.scope : (typeof token.scope === 'string' ? [token.scope] : []);
-      const settings = token.settings || {};
-      for (const s of scopes) {
-        const mapped = tokenMapping[s] || tokenMapping[s.split('.')?.[0]];
-        if (mapped && settings.foreground) {
-          if (!(mapped in syntaxColors)) {
-            syntaxColors[mapped] = hexToXcodeColor(settings.foreground);
-          } else {
-            const prevScope = Object.keys(tokenMapping).find(key => tokenMapping[key] === mapped && syntaxColors[mapped] === hexToXcodeColor(settings.foreground));
-            const prevIdx = prevScope ? scopePriority.indexOf(prevScope) : 999;
-            const currIdx = scopePriority.indexOf(s);
-            if (currIdx > -1 && (prevIdx === -1 || currIdx < prevIdx)) {
-              syntaxColors[mapped] = hexToXcodeColor(settings.foreground);
-            }
-          }
-        }
+  const syntaxStyles: Record<string, FontStyle> = {};
+  const rules = compileTokenRules(theme.tokenColors);
+  const usedTokenRules = new Set<number>();
+  const usedSemanticColors = new Set<string>();
+  const resolveStacks = (xcKey: string, stacks: string[]) => {
+    const matches = stacks
+      .map(stack => ({ stack, ...resolveScopeStyle(rules, toScopeStack(stack)) }))
+      .filter(match => match.foreground?.rule.settings.foreground);
+    const language = matches[0]?.stack.split(' ')[0];
+    const match = matches.find(({ stack, foreground }) =>
+      stack.split(' ')[0] === language && foreground && isLanguageQualified(foreground.selector)) || matches[0];
+    if (!match?.foreground) return false;
+    const { stack, foreground, fontStyle } = match;
+    syntaxColors[xcKey] = cssToXcodeColor(foreground.rule.settings.foreground);
+    syntaxStyles[xcKey] = parseFontStyle(fontStyle?.rule.settings.fontStyle);
+    const { index, name } = foreground.rule;
+    sources[xcKey] = { type: 'token', index, scope: stack, selector: foreground.selector.text, name };
+    usedTokenRules.add(index);
+    if (fontStyle) usedTokenRules.add(fontStyle.rule.index);
+    return true;
+  };
+  for (const [xcKey, stacks] of Object.entries(tokenMapping)) {
+    if (!overrides[xcKey]?.source) resolveStacks(xcKey, stacks);
+  }
+  // 3. 语义高亮：主题开启时，语义规则覆盖 TextMate 的结果
+  if (theme.semanticHighlighting) {
+    const semanticRules = compileSemanticRules(theme.semanticTokenColors);
+    for (const [xcKey, tokens] of Object.entries(semanticMapping)) {
+      if (overrides[xcKey]?.source) continue;
+      const resolved = tokens.map(token => resolveSemanticStyle(semanticRules, { ...token, language: 'swift' }));
+      // 颜色与字体样式分别取第一个提供它们的语义 token
+      const foreground = resolved.find(r => r.foreground)?.foreground;
+      const fontStyle = resolved.find(r => r.fontStyle)?.fontStyle;
+      if (foreground?.rule.style.foreground) {
+        syntaxColors[xcKey] = cssToXcodeColor(foreground.rule.style.foreground);
+        sources[xcKey] = { type: 'semantic', selector: foreground.rule.selector };
+        usedSemanticColors.add(foreground.rule.selector);
+      }
+      if (fontStyle) {
+        usedSemanticColors.add(fontStyle.rule.selector);
+        syntaxStyles[xcKey] = { ...parseFontStyle(undefined), ...syntaxStyles[xcKey], ...fontStyle.rule.style.fontStyle };
       }
     }
   }
-  // 补全所有 xcode.syntax.* 关键 token，缺省用 plain 的色或默认色
+  // 覆盖：指定的 scope 栈优先于映射表与语义规则，指定的颜色只替换颜色、保留字体样式
+  for (const [xcKey, override] of Object.entries(overrides)) {
+    if (overrideSourceType(xcKey) !== 'scope') continue;
+    if (override.source) resolveStacks(xcKey, [override.source]);
+    const color = overrideColor(override);
+    if (color) {
+      syntaxColors[xcKey] = color;
+      sources[xcKey] = { type: 'override', color: override.color as string };
+    }
+  }
+  // 推断：主题未定义的字段先尝试相关 scope、workbench 颜色与调色板，细分字段随后沿用推断出的基础字段
+  for (const [xcKey, inferred] of Object.entries(inferSyntaxColors(theme, rules, syntaxColors))) {
+    if (overrides[xcKey]?.source) continue;
+    syntaxColors[xcKey] = cssToXcodeColor(inferred.color);
+    syntaxStyles[xcKey] = syntaxStyles[xcKey] || parseFontStyle(inferred.fontStyle);
+    sources[xcKey] = { type: 'inferred', via: inferred.via, from: inferred.from };
+    for (const index of inferred.rules || []) usedTokenRules.add(index);
+  }
+  for (const [xcKey, baseKey] of Object.entries(syntaxKeyFallbacks)) {
+    if (!syntaxColors[xcKey] && syntaxColors[baseKey]) {
+      syntaxColors[xcKey] = syntaxColors[baseKey];
+      syntaxStyles[xcKey] = syntaxStyles[xcKey] || syntaxStyles[baseKey];
+      sources[xcKey] = { type: 'fallback', key: baseKey };
+    }
+  }
+  // 补全所有 xcode.syntax.* 关键 token，无法推断时才用 plain 的色或默认色
   const syntaxRequired = [
     'xcode.syntax.plain', 'xcode.syntax.comment', 'xcode.syntax.string', 'xcode.syntax.keyword',
     'xcode.syntax.number', 'xcode.syntax.identifier.variable', 'xcode.syntax.identifier.constant',
   ];
   for (const k of syntaxRequired) {
     if (!syntaxColors[k]) {
-      syntaxColors[k] = xcodeColors['xcode.syntax.plain'] || xcodeRequiredKeys['xcode.syntax.plain'];
+      syntaxColors[k] = xcodeColors['xcode.syntax.plain'] || palette['xcode.syntax.plain'];
+      sources[k] = k === 'xcode.syntax.plain' ? sources[k] : { type: 'fallback', key: 'xcode.syntax.plain' };
     }
   }
-  // 3. 合并生成 XML
-  const plistItems: string[] = [];
-  for (const [k, v] of Object.entries(xcodeColors)) {
-    plistItems.push(`<key>${k}</key>\n<string>${v}</string>`);
+  const base = backdropBase(theme);
+  if (options.flattenAlpha) {
+    flattenColors(xcodeColors, syntaxColors, base);
+  }
+  const contrastFixes = options.ensureContrast
+    ? fixContrast(xcodeColors, syntaxColors, options.minContrast || defaultMinContrast, base)
+    : [];
+  // 4. 每个 syntax 字段都需要对应的字体，否则 Xcode 会拒绝加载主题
+  const font = options.font || defaultXcodeFont;
+  const syntaxFonts: Record<string, string> = {};
+  for (const k of Object.keys(syntaxColors)) {
+    syntaxFonts[k] = xcodeFontName(font, syntaxStyles[k]);
   }
-  plistItems.push(`<key>DVTSourceTextSyntaxColors</key>\n<dict>`);
-  for (const [k, v] of Object.entries(syntaxColors)) {
-    plistItems.push(`<key>${k}</key>\n<string>${v}</string>`);
+  // 5. 合并为 plist 模型
+  const plist: PlistDict = { ...xcodeStaticKeys };
+  for (const [k, v] of Object.entries(xcodeColors)) {
+    if (!k.startsWith('xcode.syntax.')) plist[k] = v;
   }
-  plistItems.push(`</dict>`);
+  Object.assign(plist, consoleFonts(font), markupFonts(font));
+  plist.DVTSourceTextSyntaxColors = syntaxColors;
+  plist.DVTSourceTextSyntaxFonts = syntaxFonts;
   if (theme.name) {
-    plistItems.push(`<key>XCThemeName</key>\n<string>${theme.name}</string>`);
+    plist.XCThemeName = theme.name;
   }
-  return `<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">\n<plist version="1.0">\n<dict>\n${plistItems.join('\n')}\n</dict>\n</plist>\n`;
-}
\ No newline at end of file
+  // 记录生成时应用的整体颜色变换与推断出的字段，Xcode 会忽略这些字段
+  if (theme.transforms) {
+    plist.VS2XTransforms = transformsToPlist(theme.transforms);
+  }
+  const inferredKeys = Object.keys(syntaxColors).filter(key => sources[key]?.type === 'inferred');
+  if (inferredKeys.length > 0) {
+    plist.VS2XInferredKeys = inferredKeys;
+  }
+  return {
+    plist,
+    sources,
+    usedTokenRules: [...usedTokenRules].sort((a, b) => a - b),
+    usedSemanticColors: [...usedSemanticColors],
+    contrastFixes,
+  };
+}
+
+/**
+ * 生成 Xcode 主题的 plist 模型，可在序列化前检查或修改
+ * @param theme ParsedVscodeTheme
+ * @param options 生成选项
+ */
+export function buildXcodeTheme(theme: ParsedVscodeTheme, options: XcodeThemeOptions = {}): PlistDict {
+  return traceXcodeTheme(theme, options).plist;
+}
+
+/**
+ * 生成 Xcode 主题，同时返回 plist 模型、XML 字符串与转换报告
+ * @param theme ParsedVscodeTheme
+ * @param options 生成选项
+ */
+export function convertToXcodeTheme(theme: ParsedVscodeTheme, options: XcodeThemeOptions = {}): XcodeConversion {
+  const trace = traceXcodeTheme(theme, options);
+  return { plist: trace.plist, xml: serializePlist(trace.plist), report: createConversionReport(theme, options, trace) };
+}
+
+/**
+ * 生成 Xcode 主题 XML 字符串
+ * @param theme ParsedVscodeTheme
+ * @param options 生成选项
+ */
+export function generateXcodeTheme(theme: ParsedVscodeTheme, options: XcodeThemeOptions = {}): string {
+  return serializePlist(buildXcodeTheme(theme, options));
+}
@@ -0,0 +1,105 @@
+// 合并到已有的 Xcode 主题：只替换选中的字段分组，其余字段（包括所有字体）保持原样
+import { isPlistDict, parsePlist, PlistDict, PlistValue } from './plist.js';
+import { parseXcodeColor, toXcodeColor } from './color.js';
+import { parseXcodeFontName, xcodeFontName } from './xcodeFonts.js';
+
+/** 可替换的字段分组：syntax 颜色、编辑器（背景、选区、光标、滚动条标记等）、控制台、Markup */
+export type XcodeMergeGroup = 'syntax' | 'editor' | 'console' | 'markup';
+
+export const xcodeMergeGroups: XcodeMergeGroup[] = ['syntax', 'editor', 'console', 'markup'];
+
+export interface XcodeThemeChange {
+  group: XcodeMergeGroup;
+  /** 顶层字段名；syntax 字段写作 "DVTSourceTextSyntaxColors.xcode.syntax.comment" */
+  key: string;
+  /** 原主题中的值，新增字段为 undefined */
+  from?: string;
+  to: string;
+}
+
+export interface XcodeThemeMerge {
+  plist: PlistDict;
+  changes: XcodeThemeChange[];
+}
+
+/**
+ * 解析作为基础的 .xccolortheme
+ * @param xml 文件内容
+ */
+export function parseXcodeThemePlist(xml: string): PlistDict {
+  const plist = parsePlist(xml);
+  if (!isPlistDict(plist) || !isPlistDict(plist.DVTSourceTextSyntaxColors)) {
+    throw new Error('Not an Xcode color theme');
+  }
+  return plist;
+}
+
+/**
+ * 顶层颜色字段所属的分组，字体及其他非颜色字段返回 null
+ * @param key 如 DVTSourceTextBackground、DVTConsoleTextBackgroundColor
+ */
+export function mergeGroupOf(key: string): XcodeMergeGroup | null {
+  if (key === 'DVTSourceTextSyntaxColors') return 'syntax';
+  if (/Font$/.test(key) || !/Color$|^DVTSourceTextBackground$/.test(key)) return null;
+  if (key.startsWith('DVTConsole')) return 'console';
+  if (key.startsWith('DVTMarkup')) return 'markup';
+  return 'editor';
+}
+
+// 颜色按数值比较，避免仅因小数位数不同就被视为修改
+function sameColor(a: PlistValue | undefined, b: string): boolean {
+  if (typeof a !== 'string') return false;
+  const left = parseXcodeColor(a);
+  const right = parseXcodeColor(b);
+  return left && right ? toXcodeColor(left) === toXcodeColor(right) : a === b;
+}
+
+/**
+ * 将生成的主题中选中分组的颜色写入基础主题
+ * 新增的 syntax 字段沿用基础主题 plain 的字体族与字号，粗体/斜体取自生成的主题，以保证每个 syntax 颜色都有字体
+ * @param base parseXcodeThemePlist 的结果，不会被修改
+ * @param generated 生成的 plist 模型
+ * @param groups 要替换的分组
+ */
+export function mergeXcodeTheme(base: PlistDict, generated: PlistDict, groups: XcodeMergeGroup[]): XcodeThemeMerge {
+  const plist: PlistDict = { ...base };
+  const changes: XcodeThemeChange[] = [];
+  for (const [key, value] of Object.entries(generated)) {
+    const group = mergeGroupOf(key);
+    if (!group || group === 'syntax' || !groups.includes(group) || typeof value !== 'string') continue;
+    if (sameColor(base[key], value)) continue;
+    changes.push({ group, key, from: typeof base[key] === 'string' ? base[key] : undefined, to: value });
+    plist[key] = value;
+  }
+  // vs2x 的记录随替换的颜色一起写入，基础主题中旧的记录不再适用：整体颜色变换对应任一分组，推断出的字段对应 syntax 分组
+  const records: Array<[string, boolean]> = [['VS2XTransforms', groups.length > 0], ['VS2XInferredKeys', groups.includes('syntax')]];
+  for (const [key, replaced] of records) {
+    if (!replaced) continue;
+    if (generated[key] !== undefined) plist[key] = generated[key];
+    else delete plist[key];
+  }
+  if (!groups.includes('syntax')) return { plist, changes };
+
+  const baseColors = isPlistDict(base.DVTSourceTextSyntaxColors) ? base.DVTSourceTextSyntaxColors : {};
+  const baseFonts = isPlistDict(base.DVTSourceTextSyntaxFonts) ? base.DVTSourceTextSyntaxFonts : {};
+  const generatedColors = isPlistDict(generated.DVTSourceTextSyntaxColors) ? generated.DVTSourceTextSyntaxColors : {};
+  const generatedFonts = isPlistDict(generated.DVTSourceTextSyntaxFonts) ? generated.DVTSourceTextSyntaxFonts : {};
+  const plainFont = parseXcodeFontName(String(baseFonts['xcode.syntax.plain'] ?? ''));
+  const syntaxColors: PlistDict = { ...baseColors };
+  const syntaxFonts: PlistDict = { ...baseFonts };
+  for (const [key, value] of Object.entries(generatedColors)) {
+    if (typeof value !== 'string' || sameColor(baseColors[key], value)) continue;
+    const from = baseColors[key];
+    changes.push({ group: 'syntax', key: `DVTSourceTextSyntaxColors.${key}`, from: typeof from === 'string' ? from : undefined, to: value });
+    syntaxColors[key] = value;
+    if (syntaxFonts[key] !== undefined) continue;
+    const style = parseXcodeFontName(String(generatedFonts[key] ?? ''));
+    const font = plainFont && style ? xcodeFontName(plainFont, style) : generatedFonts[key];
+    if (typeof font !== 'string') continue;
+    changes.push({ group: 'syntax', key: `DVTSourceTextSyntaxFonts.${key}`, to: font });
+    syntaxFonts[key] = font;
+  }
+  plist.DVTSourceTextSyntaxColors = syntaxColors;
+  plist.DVTSourceTextSyntaxFonts = syntaxFonts;
+  return { plist, changes };
+}
@@ -0,0 +1,70 @@
+// Xcode 主题解析器：将 .xccolortheme（plist）解析为中间结构，供转换回 VSCode 主题使用
+import { isPlistDict, parsePlist, PlistDict, PlistValue } from './plist.js';
+import { parseXcodeColor, RGBA } from './color.js';
+import { parseXcodeFontName, ParsedXcodeFont } from './xcodeFonts.js';
+
+export interface ParsedXcodeTheme {
+  name: string;
+  /** 顶层的 DVT 颜色字段（编辑器、控制台、Markup、滚动条标记等） */
+  colors: Record<string, RGBA>;
+  /** 顶层的 DVT 字体字段（控制台、Markup） */
+  fonts: Record<string, ParsedXcodeFont>;
+  /** DVTSourceTextSyntaxColors */
+  syntaxColors: Record<string, RGBA>;
+  /** DVTSourceTextSyntaxFonts */
+  syntaxFonts: Record<string, ParsedXcodeFont>;
+  /** 其余无法识别为颜色或字体的顶层字段，原样保留 */
+  other: PlistDict;
+}
+
+function readColors(dict: PlistValue | undefined): Record<string, RGBA> {
+  const colors: Record<string, RGBA> = {};
+  if (!isPlistDict(dict)) return colors;
+  for (const [k, v] of Object.entries(dict)) {
+    const color = typeof v === 'string' ? parseXcodeColor(v) : null;
+    if (color) colors[k] = color;
+  }
+  return colors;
+}
+
+function readFonts(dict: PlistValue | undefined): Record<string, ParsedXcodeFont> {
+  const fonts: Record<string, ParsedXcodeFont> = {};
+  if (!isPlistDict(dict)) return fonts;
+  for (const [k, v] of Object.entries(dict)) {
+    const font = typeof v === 'string' ? parseXcodeFontName(v) : null;
+    if (font) fonts[k] = font;
+  }
+  return fonts;
+}
+
+/**
+ * 解析 .xccolortheme 内容
+ * @param xml 主题文件内容
+ * @param fallbackName 主题中没有名称时使用（通常取文件名）
+ */
+export function parseXcodeTheme(xml: string, fallbackName = 'Untitled Theme'): ParsedXcodeTheme {
+  const root = parsePlist(xml);
+  if (!isPlistDict(root)) {
+    throw new Error('无效的 Xcode 主题文件：根节点不是 dict');
+  }
+  if (!isPlistDict(root.DVTSourceTextSyntaxColors)) {
+    throw new Error('无效的 Xcode 主题文件：缺少 DVTSourceTextSyntaxColors 字段');
+  }
+  const theme: ParsedXcodeTheme = {
+    name: typeof root.XCThemeName === 'string' && root.XCThemeName ? root.XCThemeName : fallbackName,
+    colors: {},
+    fonts: {},
+    syntaxColors: readColors(root.DVTSourceTextSyntaxColors),
+    syntaxFonts: readFonts(root.DVTSourceTextSyntaxFonts),
+    other: {},
+  };
+  for (const [k, v] of Object.entries(root)) {
+    if (k === 'DVTSourceTextSyntaxColors' || k === 'DVTSourceTextSyntaxFonts' || k === 'XCThemeName') continue;
+    const color = typeof v === 'string' && /Color|Background$/.test(k) ? parseXcodeColor(v) : null;
+    const font = typeof v === 'string' && /Font$/.test(k) ? parseXcodeFontName(v) : null;
+    if (color) theme.colors[k] = color;
+    else if (font) theme.fonts[k] = font;
+    else theme.other[k] = v;
+  }
+  return theme;
+}
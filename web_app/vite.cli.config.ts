@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+
+// Builds the `vs2x` command-line converter into a single Node script
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/vs2x.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'vs2x.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+  ssr: {
+    // Bundle jsonc-parser and friends so the CLI runs without the web app's node_modules
+    noExternal: true,
+  },
+})